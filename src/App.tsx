@@ -1,8 +1,30 @@
 // src/App.tsx
-import { useMemo, useRef, useState } from 'react'
-import Diagram, { type LayoutMode, type DiagramApi } from './components/Diagram'
-import { parseOutline, type WbsNode } from './lib/parseOutline'
-import { importOutlineFromFile } from './lib/importers' // (file: File) => Promise<string>
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Navigate, useParams } from 'react-router-dom'
+import Diagram, { type ChildOrder, type DiagramApi, type ExportScope, type LayoutMode } from './components/Diagram'
+import DocumentMenu from './components/DocumentMenu'
+import VersionMenu, { type CompareRequest } from './components/VersionMenu'
+import ThemeMenu from './components/ThemeMenu'
+import RulesMenu from './components/RulesMenu'
+import PrintMenu from './components/PrintMenu'
+import TitleBlockMenu from './components/TitleBlockMenu'
+import { detectOutlineStyle, parseOutline, type WbsNode } from './lib/parseOutline'
+import { reconcileIds, subsetTree, subtreeOf, toOutline } from './lib/wbs'
+import { computeRollup, describeWarning } from './lib/rollup'
+import { validateOutline, type DiagnosticSeverity } from './lib/validateOutline'
+import { importWbsFromFile, type ImportResult } from './lib/importers'
+import { exportCSV, exportXLSX } from './lib/exporters'
+import { writeMspdi } from './lib/mspdi'
+import { toMarkdown, toMermaid, toOpml, type MermaidKind } from './lib/outlineFormats'
+import { downloadBlob } from './lib/download'
+import { parseProject, serializeProject, type ProjectFile, type ProjectLayout, type ProjectLayouts } from './lib/projectFile'
+import { CURRENT_VERSION, lastDocumentId, listDocuments, listVersions, newDocumentId, readDocument, readVersion, setLastDocument, writeDocument } from './lib/documents'
+import { countChanges, diffTrees, formatDiffReport, type DiffKind } from './lib/diff'
+import { computeCodes, DEFAULT_NUMBERING, NUMBERING_PRESETS, type CodeIssue, type NumberingScheme } from './lib/numbering'
+import { DEFAULT_THEME, resolveTheme, type Theme } from './lib/themes'
+import type { FormatRule } from './lib/formatRules'
+import { DEFAULT_PRINT_SETUP, type PrintSetup } from './lib/printPages'
+import { EMPTY_TITLE_BLOCK, type TitleBlock } from './lib/titleBlock'
 
 const SAMPLE = `Project
   Initiation
@@ -24,6 +46,11 @@ const SAMPLE = `Project
     Lessons learned 
     Closing`
 
+/** Starting outline of a new document (the sample is only for the very first one) */
+const BLANK = `New project
+  Phase 1
+  Phase 2`
+
 type Pos = { x: number; y: number }
 
 // Card helper
@@ -34,6 +61,23 @@ const cardBox: React.CSSProperties = {
   boxShadow: '0 10px 30px rgba(0,0,0,0.06)'
 }
 
+const noticeBox: React.CSSProperties = {
+  marginTop: 8,
+  maxHeight: 104,
+  overflow: 'auto',
+  fontSize: 12,
+  color: '#92400e',
+  background: '#fffbeb',
+  border: '1px solid #fde68a',
+  borderRadius: 10,
+  padding: '6px 10px'
+}
+
+const severityColor: Record<DiagnosticSeverity, string> = { error: '#b91c1c', warning: '#b45309', info: '#475569' }
+
+/** Border colors of the compare view (same as the canvas styles) */
+const diffColor: Record<DiffKind, string> = { added: '#16a34a', removed: '#dc2626', renamed: '#2563eb', moved: '#9333ea' }
+
 const btn: React.CSSProperties = {
   padding: '6px 10px',
   borderRadius: 10,
@@ -43,22 +87,89 @@ const btn: React.CSSProperties = {
   fontSize: 12
 }
 
-export default function App() {
-  const [text, setText] = useState<string>(SAMPLE)
-  const [layoutMode, setLayoutMode] = useState<LayoutMode>('horizontal')
-  const [fontSize, setFontSize] = useState(14)
-  const [boxWidth, setBoxWidth] = useState(300)
-  const [boxHeight, setBoxHeight] = useState(90)
-  const [textMaxWidth, setTextMaxWidth] = useState(280)
-  const [showGrid, setShowGrid] = useState(true)
-  const [gridSize, setGridSize] = useState(10)
-  const [snapToGrid, setSnapToGrid] = useState(true)
-  const [title, setTitle] = useState('')
-
-  const [positions, setPositions] = useState<Record<string, Pos>>({})
+/** `/` reopens the last document (or starts the first one) */
+export function OpenLastDocument() {
+  return <Navigate to={`/doc/${lastDocumentId() ?? newDocumentId()}`} replace />
+}
+
+/** `/doc/:docId`: a fresh App per document, so switching documents resets all state */
+export function DocumentRoute() {
+  const { docId = '' } = useParams()
+  return <App key={docId} docId={docId} />
+}
+
+export default function App({ docId }: { docId: string }) {
+  // the stored document, read once; a new id starts from the sample (first document) or a blank outline
+  const [saved] = useState(() => readDocument(docId))
+  const [initialText] = useState(() => saved?.text ?? (listDocuments().length ? BLANK : SAMPLE))
+  const s = saved?.settings ?? {}
+
+  const [text, setText] = useState<string>(initialText)
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>(s.layoutMode ?? 'horizontal')
+  const [nodeSpacing, setNodeSpacing] = useState(s.nodeSpacing ?? 60)
+  const [rankSpacing, setRankSpacing] = useState(s.rankSpacing ?? 120)
+  const [childOrder, setChildOrder] = useState<ChildOrder>(s.childOrder ?? 'outline')
+  const [fontSize, setFontSize] = useState(s.fontSize ?? 14)
+  const [boxWidth, setBoxWidth] = useState(s.boxWidth ?? 300)
+  const [boxHeight, setBoxHeight] = useState(s.boxHeight ?? 90)
+  const [textMaxWidth, setTextMaxWidth] = useState(s.textMaxWidth ?? 280)
+  const [showGrid, setShowGrid] = useState(s.showGrid ?? true)
+  const [gridSize, setGridSize] = useState(s.gridSize ?? 10)
+  const [snapToGrid, setSnapToGrid] = useState(s.snapToGrid ?? true)
+  const [title, setTitle] = useState(saved?.title ?? '')
+  const [showTotals, setShowTotals] = useState(s.showTotals ?? true)
+  const [showCodes, setShowCodes] = useState(s.showCodes ?? false)
+  const [numbering, setNumbering] = useState<NumberingScheme>(s.numbering ?? DEFAULT_NUMBERING)
+  const [codeIssues, setCodeIssues] = useState<CodeIssue[]>([])
+  const [layoutError, setLayoutError] = useState('')
+  const [themeId, setThemeId] = useState(s.theme ?? DEFAULT_THEME.id)
+  const [customThemes, setCustomThemes] = useState<Theme[]>(saved?.themes ?? [])
+  const theme = useMemo(() => resolveTheme(themeId, customThemes), [themeId, customThemes])
+  const [rules, setRules] = useState<FormatRule[]>(saved?.rules ?? [])
+  const [showLegend, setShowLegend] = useState(s.showLegend ?? true)
+  const [printSetup, setPrintSetup] = useState<PrintSetup>(s.print ?? DEFAULT_PRINT_SETUP)
+  const [titleBlock, setTitleBlock] = useState<TitleBlock>(s.titleBlock ?? EMPTY_TITLE_BLOCK)
+  const [exportScope, setExportScope] = useState<ExportScope>('all')
+  // an empty version field stands for the latest named version; VersionMenu reports each change to the list
+  const [latestVersion, setLatestVersion] = useState(() => listVersions(docId)[0]?.name)
+  const exportBlock = useMemo(() => ({ ...titleBlock, version: titleBlock.version || latestVersion || '' }), [titleBlock, latestVersion])
+
+  // the open layout mode's arrangement lives in positions/loadedLayout (and the canvas); the other modes' in layouts
+  const [layouts, setLayouts] = useState<ProjectLayouts>(saved?.layouts ?? {})
+  const [positions, setPositions] = useState<Record<string, Pos>>(saved?.layouts[layoutMode]?.positions ?? {})
+  const [loadedLayout, setLoadedLayout] = useState<Omit<ProjectLayout, 'positions'> | undefined>(saved?.layouts[layoutMode])
   const apiRef = useRef<DiagramApi | null>(null)
 
-  const root: WbsNode = useMemo(() => parseOutline(text), [text])
+  const [root, setRoot] = useState<WbsNode>(() => saved?.tree ?? parseOutline(initialText))
+
+  // text → tree: re-parse on every edit, carrying ids over so manual layout sticks
+  const editText = (next: string) => {
+    setText(next)
+    setRoot(prev => reconcileIds(prev, parseOutline(next)))
+  }
+  // tree → text: canvas edits (rename, add, delete, move) rewrite the outline in the style it was written in
+  const editTree = (next: WbsNode) => {
+    setRoot(next)
+    setText(toOutline(next, detectOutlineStyle(text)))
+  }
+
+  const rollup = useMemo(() => computeRollup(root), [root])
+  const diagnostics = useMemo(() => validateOutline(text, numbering), [text, numbering])
+  const textRef = useRef<HTMLTextAreaElement>(null)
+  const codes = useMemo(() => computeCodes(root, numbering), [root, numbering])
+  const numberingPreset = Object.keys(NUMBERING_PRESETS).find(k =>
+    NUMBERING_PRESETS[k].separator === numbering.separator &&
+    NUMBERING_PRESETS[k].styles.join() === numbering.styles.join()) ?? '1.1.1'
+
+  // select a line in the editor (diagnostics jump here)
+  const goToLine = (line: number) => {
+    const ta = textRef.current; if (!ta) return
+    const lines = text.split('\n')
+    const start = lines.slice(0, line - 1).reduce((n, l) => n + l.length + 1, 0)
+    ta.focus()
+    ta.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0))
+    ta.scrollTop = Math.max(0, (line - 1) * 13 * 1.5 - ta.clientHeight / 3)
+  }
 
   const handleReady = (api: DiagramApi) => {
     apiRef.current = api
@@ -69,30 +180,175 @@ export default function App() {
   const doAutoFitAll = () => apiRef.current?.autoFitAll?.()
   const doUndo = () => apiRef.current?.undo?.()
   const doRedo = () => apiRef.current?.redo?.()
+  const doAddChild = () => apiRef.current?.addChild?.()
+  const doAddSibling = () => apiRef.current?.addSibling?.()
+  const doDelete = () => apiRef.current?.deleteSelected?.()
+  const doOutdent = () => apiRef.current?.outdent?.()
+  const doIndent = () => apiRef.current?.indent?.()
+
+  // what the exports cover; image exports draw it, data exports cut the tree down to it
+  const scopeMissing = () => {
+    const missing = exportScope !== 'all' && apiRef.current?.getScope(exportScope) === null
+    if (missing) window.alert('Select a box first: this export scope covers the selection.')
+    return missing
+  }
+  const scopedTree = (): WbsNode | null => {
+    if (exportScope === 'all' || !apiRef.current) return root
+    const scope = apiRef.current.getScope(exportScope)
+    if (!scope) { scopeMissing(); return null }
+    return scope.rootId ? subtreeOf(root, scope.rootId) : subsetTree(root, new Set(scope.ids))
+  }
+  const exportTree = (write: (tree: WbsNode) => void) => { const tree = scopedTree(); if (tree) write(tree) }
+
+  const exportFailed = (what: string) => (e: unknown) => window.alert(`Could not ${what}: ${(e as Error).message}`)
+  const savePNG = () => {
+    if (!scopeMissing()) apiRef.current?.downloadPNG({ scale: 2, margin: 80, scope: exportScope }).catch(exportFailed('create the PNG'))
+  }
+  const saveSVG = () => {
+    if (scopeMissing()) return
+    try { apiRef.current?.downloadSVG({ margin: 80, scope: exportScope }) } catch (e) { exportFailed('create the SVG')(e) }
+  }
+  const saveHTML = () => { if (!scopeMissing()) apiRef.current?.downloadHTML({ scope: exportScope }) }
+  // arrangement of the open layout mode, read from the canvas when there is one
+  const currentLayout = (): ProjectLayout => {
+    let layout: ProjectLayout | undefined
+    try { layout = apiRef.current?.getLayout() } catch { /* canvas torn down; fall back to state */ }
+    return layout ?? { positions, styles: loadedLayout?.styles ?? {}, collapsed: loadedLayout?.collapsed ?? [], pinned: loadedLayout?.pinned ?? [] }
+  }
+  // project file: everything needed to reopen the diagram as it is now
+  const projectJSON = () => serializeProject({
+    title,
+    text,
+    tree: root,
+    settings: { layoutMode, nodeSpacing, rankSpacing, childOrder, fontSize, boxWidth, boxHeight, textMaxWidth, showGrid, gridSize, snapToGrid, showTotals, showCodes, numbering, theme: themeId, showLegend, print: printSetup, titleBlock },
+    layouts: { ...layouts, [layoutMode]: currentLayout() },
+    themes: customThemes,
+    rules
+  })
+  const saveProject = () => downloadBlob(new Blob([projectJSON()], { type: 'application/json' }), 'wbs.json')
 
-  const savePNG = () => apiRef.current?.downloadPNG({ scale: 2, bg: '#ffffff', margin: 80 })
-  const saveSVG = () => apiRef.current?.downloadSVG({ margin: 80 })
-  const saveJSON = () => {
-    const json = apiRef.current?.exportJSON()
-    if (!json) return
-    const blob = new Blob([json], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = 'wbs.json'
-    document.body.appendChild(a)
-    a.click()
-    a.remove()
-    URL.revokeObjectURL(url)
+  // autosave to browser storage shortly after every change, and at once when the page or document closes
+  const [saveFailed, setSaveFailed] = useState(false)
+  const pendingSaveRef = useRef<(() => void) | null>(null)
+  const projectJSONRef = useRef(projectJSON)
+  projectJSONRef.current = projectJSON
+  useEffect(() => {
+    const save = () => { pendingSaveRef.current = null; setSaveFailed(!writeDocument(docId, projectJSONRef.current(), title)) }
+    pendingSaveRef.current = save
+    const t = setTimeout(save, 400)
+    return () => clearTimeout(t)
+  }, [docId, title, text, root, positions, layouts, layoutMode, nodeSpacing, rankSpacing, childOrder, fontSize, boxWidth, boxHeight, textMaxWidth, showGrid, gridSize, snapToGrid, showTotals, showCodes, numbering, themeId, customThemes, rules, showLegend, printSetup, titleBlock])
+  useEffect(() => {
+    setLastDocument(docId)
+    const flush = () => pendingSaveRef.current?.()
+    window.addEventListener('pagehide', flush)
+    return () => { window.removeEventListener('pagehide', flush); flush() }
+  }, [docId])
+  const applyProject = (file: ProjectFile) => {
+    const s = file.settings
+    const mode = s.layoutMode ?? layoutMode
+    setLayoutMode(mode)
+    if (s.nodeSpacing !== undefined) setNodeSpacing(s.nodeSpacing)
+    if (s.rankSpacing !== undefined) setRankSpacing(s.rankSpacing)
+    if (s.childOrder) setChildOrder(s.childOrder)
+    if (s.fontSize !== undefined) setFontSize(s.fontSize)
+    if (s.boxWidth !== undefined) setBoxWidth(s.boxWidth)
+    if (s.boxHeight !== undefined) setBoxHeight(s.boxHeight)
+    if (s.textMaxWidth !== undefined) setTextMaxWidth(s.textMaxWidth)
+    if (s.showGrid !== undefined) setShowGrid(s.showGrid)
+    if (s.gridSize !== undefined) setGridSize(s.gridSize)
+    if (s.snapToGrid !== undefined) setSnapToGrid(s.snapToGrid)
+    if (s.showTotals !== undefined) setShowTotals(s.showTotals)
+    if (s.showCodes !== undefined) setShowCodes(s.showCodes)
+    if (s.numbering) setNumbering(s.numbering)
+    if (s.theme) setThemeId(s.theme)
+    setCustomThemes(file.themes)
+    setRules(file.rules)
+    if (s.showLegend !== undefined) setShowLegend(s.showLegend)
+    if (s.print) setPrintSetup(s.print)
+    if (s.titleBlock) setTitleBlock(s.titleBlock)
+    setTitle(file.title)
+    setText(file.text)
+    setRoot(file.tree)
+    setLayouts(file.layouts)
+    setPositions(file.layouts[mode]?.positions ?? {})
+    setLoadedLayout({ styles: file.layouts[mode]?.styles ?? {}, collapsed: file.layouts[mode]?.collapsed ?? [], pinned: file.layouts[mode]?.pinned ?? [] })
+    setCodeIssues([])
+    setCompare(null)
+  }
+  const loadProject = (json: string) => {
+    let file: ProjectFile
+    try { file = parseProject(json) } catch (e) { window.alert(`Could not open project: ${(e as Error).message}`); return }
+    applyProject(file)
+  }
+
+  // compare two versions (or a version and the live outline) on the canvas and as a report
+  const [compare, setCompare] = useState<CompareRequest | null>(null)
+  const comparison = useMemo(() => {
+    if (!compare) return null
+    const tree = (id: string) => (id === CURRENT_VERSION ? root : readVersion(docId, id)?.tree)
+    const before = tree(compare.from), after = tree(compare.to)
+    return before && after ? diffTrees(before, after, numbering) : null
+  }, [compare, root, docId, numbering])
+  const diffReport = comparison && compare ? formatDiffReport(comparison, compare.fromName, compare.toName) : ''
+  const startCompare = (request: CompareRequest) => {
+    // the editable canvas is swapped out; keep its layout so it comes back as it was
+    let layout: ProjectLayout | undefined
+    try { layout = apiRef.current?.getLayout() } catch { /* canvas torn down */ }
+    if (layout) { setPositions(layout.positions); setLoadedLayout(layout) }
+    apiRef.current = null // until the editable canvas is back and ready again
+    setCompare(request)
+  }
+  // each layout mode keeps its own positions, widths and collapsed branches
+  const switchLayout = (next: LayoutMode) => {
+    const stored = { ...layouts, [layoutMode]: currentLayout() }
+    setLayouts(stored)
+    setPositions(stored[next]?.positions ?? {})
+    setLoadedLayout({ styles: stored[next]?.styles ?? {}, collapsed: stored[next]?.collapsed ?? [], pinned: stored[next]?.pinned ?? [] })
+    setLayoutMode(next)
+  }
+  // back to what the layout algorithm gives, with default widths and nothing collapsed
+  const resetLayout = () => {
+    setPositions({})
+    setLoadedLayout({ styles: {}, collapsed: [], pinned: [] })
+    setLayouts(prev => { const next = { ...prev }; delete next[layoutMode]; return next })
+  }
+  const saveDiffReport = () => downloadBlob(new Blob([diffReport], { type: 'text/plain;charset=utf-8' }), 'wbs-changes.txt')
+  const notices = diagnostics.length + codeIssues.length + rollup.warnings.length + (compare ? 1 : 0) + (layoutError ? 1 : 0)
+  // data exports keep the codes of the whole WBS, so a branch sent out still matches the plan
+  const saveXLSX = () => exportTree(tree =>
+    downloadBlob(
+      new Blob([exportXLSX(tree, codes)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+      'wbs.xlsx'
+    ))
+  // BOM so Excel picks up UTF-8
+  const saveCSV = () => exportTree(tree => downloadBlob(new Blob(['\ufeff' + exportCSV(tree, codes)], { type: 'text/csv;charset=utf-8' }), 'wbs.csv'))
+  const saveMSPDI = () => exportTree(tree =>
+    downloadBlob(new Blob([writeMspdi(tree, codes, { title })], { type: 'application/xml' }), 'wbs.xml'))
+  const saveMarkdown = () => exportTree(tree =>
+    downloadBlob(new Blob([toMarkdown(tree, { codes: showCodes ? codes : undefined })], { type: 'text/markdown' }), 'wbs.md'))
+  const saveOPML = () => exportTree(tree => downloadBlob(new Blob([toOpml(tree, { title })], { type: 'text/x-opml' }), 'wbs.opml'))
+  const saveMermaid = (kind: MermaidKind) => exportTree(tree =>
+    downloadBlob(
+      new Blob([toMermaid(tree, kind, { codes: showCodes ? codes : undefined, title })], { type: 'text/plain' }),
+      `wbs-${kind}.mmd`
+    ))
+  const savePDF = () => {
+    if (scopeMissing()) return
+    apiRef.current?.downloadPDF({ margin: 80, scope: exportScope, meta: { author: exportBlock.author || undefined, version: exportBlock.version || undefined } })
+      .catch(exportFailed('create the PDF'))
+  }
+  const printPDF = () => {
+    if (scopeMissing()) return
+    try { apiRef.current?.print({ margin: 80, scope: exportScope, pages: printSetup }) } catch (e) { exportFailed('print')(e) }
   }
-  const printPDF = () => apiRef.current?.print({ bg: '#ffffff', margin: 80 })
 
   // local file picker
   const pickFile = () =>
     new Promise<File | null>((resolve) => {
       const input = document.createElement('input')
       input.type = 'file'
-      input.accept = '.csv,.tsv,.xlsx,.json,.txt'
+      input.accept = '.csv,.tsv,.xlsx,.xml,.md,.markdown,.opml,.json,.txt'
       input.onchange = () => resolve(input.files?.[0] ?? null)
       input.click()
     })
@@ -103,13 +359,15 @@ export default function App() {
     const ext = (file.name.split('.').pop() || '').toLowerCase()
 
     if (ext === 'json') {
-      const json = await file.text()
-      apiRef.current?.importJSON(json)
+      loadProject(await file.text())
       return
     }
 
-    const outlineText = await importOutlineFromFile(file)
-    if (outlineText && outlineText.trim()) setText(outlineText)
+    let imported: ImportResult
+    try { imported = await importWbsFromFile(file, numbering) } catch (e) { window.alert(`Could not import: ${(e as Error).message}`); return }
+    const { text: outlineText, codeIssues: issues, title: fileTitle } = imported
+    if (outlineText && outlineText.trim()) { editText(outlineText); setCodeIssues(issues) }
+    if (fileTitle) setTitle(fileTitle)
   }
 
   return (
@@ -146,6 +404,20 @@ export default function App() {
             rowGap: 10
           }}
         >
+          {/* Documents (browser storage) */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <DocumentMenu currentId={docId} onDeleteCurrent={() => { pendingSaveRef.current = null }} buttonStyle={btn} />
+            <VersionMenu
+              docId={docId}
+              getProjectJSON={projectJSON}
+              onRestore={applyProject}
+              onCompare={startCompare}
+              onVersionsChange={(list) => setLatestVersion(list[0]?.name)}
+              buttonStyle={btn}
+            />
+            {saveFailed && <span style={{ fontSize: 12, color: '#b91c1c' }} title="Browser storage is full or disabled">Not saved</span>}
+          </div>
+
           {/* Title */}
           <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
             <label style={{ fontSize: 12 }}>
@@ -157,6 +429,20 @@ export default function App() {
                 style={{ padding: '6px 8px', border: '1px solid #e5e7eb', borderRadius: 10, width: 220 }}
               />
             </label>
+            <TitleBlockMenu
+              block={titleBlock}
+              onChange={setTitleBlock}
+              showLegend={showLegend}
+              onShowLegend={setShowLegend}
+              latestVersion={latestVersion}
+              buttonStyle={btn}
+            />
+          </div>
+
+          {/* Theme and formatting rules */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <ThemeMenu theme={theme} custom={customThemes} onSelect={setThemeId} onCustomChange={setCustomThemes} buttonStyle={btn} />
+            <RulesMenu rules={rules} onChange={setRules} showLegend={showLegend} onShowLegend={setShowLegend} buttonStyle={btn} />
           </div>
 
           {/* Layout */}
@@ -165,12 +451,51 @@ export default function App() {
               Layout:&nbsp;
               <select
                 value={layoutMode}
-                onChange={(e) => setLayoutMode(e.target.value as LayoutMode)}
+                onChange={(e) => switchLayout(e.target.value as LayoutMode)}
                 style={{ padding: '6px 8px', border: '1px solid #e5e7eb', borderRadius: 10 }}
               >
                 <option value="horizontal">Horizontal</option>
                 <option value="vertical">Vertical</option>
                 <option value="mindmap">Mind map</option>
+                <option value="elk-layered">Layered (ELK)</option>
+                <option value="elk-mrtree">Tree (ELK)</option>
+                <option value="org-chart">Org chart</option>
+              </select>
+            </label>
+            <button onClick={resetLayout} style={btn} title="Forget moved boxes, width changes and collapsed branches in this layout (other layouts keep theirs)">Reset layout</button>
+            {/* spacing and order lay the diagram out again; boxes moved by hand stay where they were put */}
+            <label style={{ fontSize: 12 }} title="Gap between boxes on the same level">
+              Spacing:&nbsp;
+              <input
+                type="range"
+                min={10}
+                max={200}
+                value={nodeSpacing}
+                onChange={(e) => setNodeSpacing(parseInt(e.target.value))}
+              />
+              &nbsp;{nodeSpacing}px
+            </label>
+            <label style={{ fontSize: 12 }} title="Gap between a level and the next">
+              Levels:&nbsp;
+              <input
+                type="range"
+                min={20}
+                max={300}
+                value={rankSpacing}
+                onChange={(e) => setRankSpacing(parseInt(e.target.value))}
+              />
+              &nbsp;{rankSpacing}px
+            </label>
+            <label style={{ fontSize: 12 }} title="Order of sibling boxes on the canvas (the outline is not changed)">
+              Order:&nbsp;
+              <select
+                value={childOrder}
+                onChange={(e) => setChildOrder(e.target.value as ChildOrder)}
+                style={{ padding: '6px 8px', border: '1px solid #e5e7eb', borderRadius: 10 }}
+              >
+                <option value="outline">As outlined</option>
+                <option value="alpha">A–Z</option>
+                <option value="size">Largest first</option>
               </select>
             </label>
           </div>
@@ -231,8 +556,17 @@ export default function App() {
             <button onClick={doRedo} style={btn}>Redo</button>
           </div>
 
+          {/* Structure (acts on the selected box) */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <button onClick={doAddChild} style={btn} title="Add child (Tab)">+ Child</button>
+            <button onClick={doAddSibling} style={btn} title="Add sibling (Enter)">+ Sibling</button>
+            <button onClick={doDelete} style={btn} title="Delete with subtree (Del)">Delete</button>
+            <button onClick={doOutdent} style={btn} title="Promote (Alt+←)">Promote</button>
+            <button onClick={doIndent} style={btn} title="Demote (Alt+→)">Demote</button>
+          </div>
+
           {/* Export */}
-          <div style={{ display: 'flex', alignItems: 'center' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
             <details style={{ position: 'relative' }}>
               <summary style={{ ...btn, listStyle: 'none', cursor: 'pointer' }}>▼ Export</summary>
               <div
@@ -254,12 +588,34 @@ export default function App() {
                   flexWrap: 'wrap'
                 }}
               >
+                <select
+                  value={exportScope}
+                  onChange={(e) => setExportScope(e.target.value as ExportScope)}
+                  title="What the exports below cover (the project file always holds everything)"
+                  style={{ padding: '6px 8px', border: '1px solid #e5e7eb', borderRadius: 10, fontSize: 12 }}
+                >
+                  <option value="all">Whole WBS</option>
+                  <option value="visible">Visible boxes</option>
+                  <option value="viewport">Current view</option>
+                  <option value="selection">Selected boxes</option>
+                  <option value="subtree">Selected branch</option>
+                </select>
                 <button onClick={savePNG} style={btn}>PNG</button>
                 <button onClick={saveSVG} style={btn}>SVG</button>
-                <button onClick={saveJSON} style={btn}>JSON</button>
-                <button onClick={printPDF} style={btn}>Print / PDF</button>
+                <button onClick={savePDF} style={btn} title="Vector PDF, one page the size of the diagram">PDF</button>
+                <button onClick={saveHTML} style={btn} title="Interactive viewer in one file: pan, zoom, collapse, search; works offline">HTML</button>
+                <button onClick={saveProject} style={btn} title="Project file (outline, layout and settings); open it again with Import">Project</button>
+                <button onClick={saveXLSX} style={btn}>Excel</button>
+                <button onClick={saveCSV} style={btn}>CSV</button>
+                <button onClick={saveMSPDI} style={btn} title="MS Project XML (MSPDI)">MS Project</button>
+                <button onClick={saveMarkdown} style={btn}>Markdown</button>
+                <button onClick={saveOPML} style={btn}>OPML</button>
+                <button onClick={() => saveMermaid('mindmap')} style={btn}>Mermaid mindmap</button>
+                <button onClick={() => saveMermaid('flowchart')} style={btn}>Mermaid flowchart</button>
+                <button onClick={printPDF} style={btn} title="Print with the page setup from the Print menu">Print</button>
               </div>
             </details>
+            <PrintMenu setup={printSetup} onChange={setPrintSetup} onPrint={printPDF} buttonStyle={btn} />
           </div>
 
           {/* Grid/Snap + Import */}
@@ -280,6 +636,41 @@ export default function App() {
               />{' '}
               Snap
             </label>
+            <label style={{ fontSize: 12 }} title="Show effort / cost / % complete rolled up from the leaves">
+              <input
+                type="checkbox"
+                checked={showTotals}
+                onChange={(e) => setShowTotals(e.target.checked)}
+              />{' '}
+              Totals
+            </label>
+            <label style={{ fontSize: 12 }}>
+              <input
+                type="checkbox"
+                checked={showCodes}
+                onChange={(e) => setShowCodes(e.target.checked)}
+              />{' '}
+              Codes
+            </label>
+            <select
+              value={numberingPreset}
+              onChange={(e) => setNumbering(n => ({ ...n, ...NUMBERING_PRESETS[e.target.value] }))}
+              title="WBS numbering scheme"
+              style={{ padding: '6px 8px', border: '1px solid #e5e7eb', borderRadius: 10, fontSize: 12 }}
+            >
+              {Object.keys(NUMBERING_PRESETS).map(k => <option key={k} value={k}>{k}</option>)}
+            </select>
+            <label style={{ fontSize: 12 }} title="First number at each level">
+              From:&nbsp;
+              <input
+                type="number"
+                min={0}
+                max={9}
+                value={numbering.start}
+                onChange={(e) => setNumbering(n => ({ ...n, start: parseInt(e.target.value || '1', 10) }))}
+                style={{ width: 48, padding: '6px 8px', border: '1px solid #e5e7eb', borderRadius: 10 }}
+              />
+            </label>
             <label style={{ fontSize: 12 }}>
               Grid:&nbsp;
               <input
@@ -296,9 +687,9 @@ export default function App() {
             <button
               onClick={importOutline}
               style={{ ...btn, background: '#f1f5f9', border: '1px solid #e5e7eb' }}
-              title="Import CSV / TSV / XLSX / JSON"
+              title="Import CSV / TSV / XLSX / MS Project XML / Markdown / OPML, or open a project (.json)"
             >
-              Import CSV/TSV/XLSX/JSON
+              Import…
             </button>
           </div>
         </div>
@@ -309,16 +700,19 @@ export default function App() {
         <div style={{ padding: 16 }}>
           <div style={{ ...cardBox, padding: 12 }}>
             <p style={{ fontSize: 12, color: '#475569', margin: '6px 0 8px' }}>
-              Paste a WBS outline here (indented or two-column WBS).
-              <span style={{ color: '#64748b' }}> Double-click a box in the diagram to auto-fit text.</span>
+              Paste a WBS outline here (indented or two-column WBS). Task data goes in a trailing
+              block, e.g. <code>{'{owner: Team B; effort: 5d; start: 2025-03-01; status: late; cost: 1200}'}</code>.
+              <span style={{ color: '#64748b' }}> Double-click a box in the diagram to auto-fit text; Alt+double-click to rename.
+                Select a box, then Tab adds a child, Enter a sibling, Del deletes, Alt+←/→ promotes/demotes; drop a box onto another to move it there.</span>
             </p>
             <textarea
+              ref={textRef}
               value={text}
-              onChange={(e) => setText(e.target.value)}
+              onChange={(e) => editText(e.target.value)}
               spellCheck={false}
               style={{
                 width: '100%',
-                height: 'calc(100vh - 190px)',
+                height: notices ? 'calc(100vh - 330px)' : 'calc(100vh - 190px)',
                 resize: 'none',
                 fontFamily:
                   'ui-monospace, SFMono-Regular, Menlo, Consolas, "Liberation Mono", monospace',
@@ -329,6 +723,62 @@ export default function App() {
                 padding: 12
               }}
             />
+            {diagnostics.length > 0 && (
+              <div style={{ ...noticeBox, color: '#334155', background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                <div style={{ fontWeight: 600, marginBottom: 4 }}>Outline problems</div>
+                {diagnostics.map((d, i) => (
+                  <div
+                    key={i}
+                    onClick={() => goToLine(d.line)}
+                    title="Go to line"
+                    style={{ cursor: 'pointer', display: 'flex', gap: 6 }}
+                  >
+                    <span style={{ color: severityColor[d.severity], fontWeight: 600, minWidth: 56 }}>Line {d.line}</span>
+                    <span>{d.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {codeIssues.length > 0 && (
+              <div style={noticeBox}>
+                <div style={{ fontWeight: 600, marginBottom: 4 }}>
+                  Imported codes that differ from the numbering{' '}
+                  <button onClick={() => setCodeIssues([])} style={{ ...btn, padding: '0 6px' }}>×</button>
+                </div>
+                {codeIssues.map(i => (
+                  <div key={i.row}>Row {i.row} "{i.label}": file {i.code}, computed {i.expected}</div>
+                ))}
+              </div>
+            )}
+            {layoutError && (
+              <div style={noticeBox}>
+                <div style={{ fontWeight: 600, marginBottom: 4 }}>
+                  Layout problem{' '}
+                  <button onClick={() => setLayoutError('')} style={{ ...btn, padding: '0 6px' }}>×</button>
+                </div>
+                <div>{layoutError}</div>
+              </div>
+            )}
+            {compare && (
+              <div style={{ ...noticeBox, maxHeight: 220, color: '#334155', background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                <div style={{ fontWeight: 600, marginBottom: 4, display: 'flex', gap: 6, alignItems: 'center' }}>
+                  <span style={{ flex: 1 }}>Change report</span>
+                  <button onClick={saveDiffReport} style={{ ...btn, padding: '0 6px' }} disabled={!comparison}>Download</button>
+                  <button onClick={() => setCompare(null)} style={{ ...btn, padding: '0 6px' }}>×</button>
+                </div>
+                {comparison
+                  ? <pre style={{ margin: 0, fontSize: 12, whiteSpace: 'pre-wrap' }}>{diffReport}</pre>
+                  : <div>One of the versions could not be read.</div>}
+              </div>
+            )}
+            {rollup.warnings.length > 0 && (
+              <div style={noticeBox}>
+                <div style={{ fontWeight: 600, marginBottom: 4 }}>Rollup warnings</div>
+                {rollup.warnings.map(w => (
+                  <div key={`${w.id}-${w.field}`}>{describeWarning(w)}</div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -344,23 +794,71 @@ export default function App() {
             overflow: 'hidden' // keep canvas clipped to rounded corners
           }}
         >
+          {comparison && compare ? (
+            <>
+              <div style={{ position: 'absolute', top: 8, left: 8, zIndex: 3, display: 'flex', gap: 10, alignItems: 'center', fontSize: 12, background: '#fff', border: '1px solid #e5e7eb', borderRadius: 10, padding: '4px 10px' }}>
+                <b>{compare.fromName} → {compare.toName}</b>
+                {Object.entries(countChanges(comparison)).map(([kind, n]) => (
+                  <span key={kind} style={{ color: diffColor[kind as DiffKind] }}>{n} {kind}</span>
+                ))}
+                <button onClick={() => setCompare(null)} style={{ ...btn, padding: '2px 8px' }}>Close compare</button>
+              </div>
+              <Diagram
+                key="compare"
+                root={comparison.merged}
+                diff={comparison}
+                title={title}
+                initialPositions={positions}
+                fontSize={fontSize}
+                boxWidth={boxWidth}
+                boxHeight={boxHeight}
+                textMaxWidth={textMaxWidth}
+                layoutMode={layoutMode}
+                nodeSpacing={nodeSpacing}
+                rankSpacing={rankSpacing}
+                childOrder={childOrder}
+                showGrid={showGrid}
+                gridSize={gridSize}
+                snapToGrid={snapToGrid}
+                theme={theme}
+                rules={rules}
+                showLegend={showLegend}
+                titleBlock={exportBlock}
+                onLayoutError={setLayoutError}
+              />
+            </>
+          ) : (
           <Diagram
-            key={layoutMode}
+            key="edit"
             root={root}
             title={title}
             initialPositions={positions}
+            initialLayout={loadedLayout}
             onPositionsChange={setPositions}
+            onLayoutError={setLayoutError}
             onReady={handleReady}
             fontSize={fontSize}
             boxWidth={boxWidth}
             boxHeight={boxHeight}
             textMaxWidth={textMaxWidth}
             layoutMode={layoutMode}
+            nodeSpacing={nodeSpacing}
+            rankSpacing={rankSpacing}
+            childOrder={childOrder}
             showGrid={showGrid}
             gridSize={gridSize}
             snapToGrid={snapToGrid}
-            onRename={() => {}}
+            theme={theme}
+            rules={rules}
+            showLegend={showLegend}
+            titleBlock={exportBlock}
+            onTreeChange={editTree}
+            rollup={showTotals ? rollup : undefined}
+            codes={codes}
+            showCodes={showCodes}
+            numbering={numbering}
           />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,167 @@
+// src/benchmark.ts
+// Synthetic benchmark for large outlines (npm run bench): each step times the way the diagram used to
+// work against the way it works now — text measuring, layout off the main thread, level-of-detail
+// drawing and folded branches. Boxes off screen are not culled: cytoscape draws every box that is
+// built, so large outlines are kept fast by plain boxes when zoomed out and by not building folded branches.
+import cytoscape from 'cytoscape'
+import type { Core, ElementDefinition } from 'cytoscape'
+import { dagreInBackground } from './lib/backgroundLayout'
+import { dagreLayout, type DagreOptions, type LayoutGraph } from './lib/layoutEngine'
+
+type Box = { id: string; label: string; level: number; parent?: string }
+
+const WORDS = ['Design', 'Build', 'Review', 'Install', 'Test', 'Procure', 'Plan', 'Document', 'Commission', 'Train']
+const DAGRE: DagreOptions = { rankDir: 'LR', nodeSep: 60, rankSep: 120 }
+const BUILT_UP_FRONT = 1500 // as in the diagram: larger outlines open with their deeper levels folded
+const LOD_ZOOM = 0.5
+
+const out = document.getElementById('out')!
+const log = (line = '') => { out.textContent += `${line}\n` }
+const ms = (t: number) => `${t.toFixed(0)} ms`
+const nextFrame = () => new Promise<number>(resolve => requestAnimationFrame(resolve))
+
+/** Pre-order outline: six children per box, level by level, until `size` boxes */
+function syntheticOutline(size: number): Box[] {
+  const boxes: Box[] = [{ id: 'n0', label: 'Project', level: 0 }]
+  for (let i = 0; boxes.length < size; i++) {
+    for (let k = 0; k < 6 && boxes.length < size; k++) {
+      const words = 2 + (boxes.length % 5)
+      const label = Array.from({ length: words }, (_, w) => WORDS[(boxes.length * 7 + w * 3) % WORDS.length]).join(' ')
+      boxes.push({ id: `n${boxes.length}`, label, level: boxes[i].level + 1, parent: boxes[i].id })
+    }
+  }
+  return boxes
+}
+
+const elementsOf = (boxes: Box[]): ElementDefinition[] => boxes.flatMap(b => [
+  { data: { id: b.id, label: b.label, level: b.level } },
+  ...(b.parent ? [{ data: { id: `${b.parent}->${b.id}`, source: b.parent, target: b.id } }] : [])
+])
+const graphOf = (boxes: Box[]): LayoutGraph => ({
+  boxes: boxes.map(b => ({ id: b.id, width: 240, height: 72 })),
+  links: boxes.filter(b => b.parent).map(b => ({ id: `${b.parent}->${b.id}`, source: b.parent!, target: b.id }))
+})
+
+/** Longest stretch the main thread was blocked while `work` ran */
+async function blocked<T>(work: () => Promise<T>): Promise<{ total: number; longest: number }> {
+  let longest = 0, last = performance.now(), running = true
+  const tick = () => { const now = performance.now(); longest = Math.max(longest, now - last); last = now; if (running) setTimeout(tick, 0) }
+  setTimeout(tick, 0)
+  const start = performance.now()
+  await work()
+  const total = performance.now() - start
+  running = false
+  await new Promise(resolve => setTimeout(resolve, 0))
+  return { total, longest: Math.max(longest, performance.now() - last) }
+}
+
+function measureText(boxes: Box[]) {
+  const font = '12px Inter, system-ui, Arial, sans-serif'
+  let start = performance.now()
+  for (const b of boxes) { const ctx = document.createElement('canvas').getContext('2d')!; ctx.font = font; ctx.measureText(b.label) }
+  const perCall = performance.now() - start
+  start = performance.now()
+  const shared = document.createElement('canvas').getContext('2d')!
+  for (const b of boxes) { shared.font = font; shared.measureText(b.label) }
+  const cached = performance.now() - start
+  log(`Text measuring (auto-fit all): new canvas per box ${ms(perCall)} → one shared canvas ${ms(cached)}`)
+}
+
+async function layout(boxes: Box[]) {
+  const graph = graphOf(boxes)
+  const main = await blocked(async () => dagreLayout(graph, DAGRE))
+  const worker = await blocked(() => dagreInBackground(graph, DAGRE))
+  log(`Layout (dagre): main thread ${ms(main.total)}, page frozen up to ${ms(main.longest)}`)
+  log(`                worker ${ms(worker.total)}, page frozen up to ${ms(worker.longest)}`)
+}
+
+/** Average frame time over a zoom out and back in, with or without level of detail */
+async function zoomFrames(cy: Core, lod: boolean): Promise<number> {
+  cy.fit(undefined, 20)
+  const from = cy.zoom(), steps = 40
+  cy.nodes().removeClass('far')
+  await nextFrame()
+  let total = 0, prev = await nextFrame()
+  for (let i = 0; i <= steps * 2; i++) {
+    const t = i <= steps ? i / steps : 2 - i / steps
+    const z = from * (1 + 2 * t)
+    cy.zoom({ level: z, renderedPosition: { x: cy.width() / 2, y: cy.height() / 2 } })
+    if (lod) cy.nodes().toggleClass('far', z < LOD_ZOOM)
+    const now = await nextFrame()
+    total += now - prev; prev = now
+  }
+  return total / (steps * 2 + 1)
+}
+
+async function render(boxes: Box[], container: HTMLElement) {
+  const start = performance.now()
+  const cy = cytoscape({
+    container,
+    elements: elementsOf(boxes),
+    style: [
+      {
+        selector: 'node',
+        style: {
+          shape: 'round-rectangle', label: 'data(label)', 'text-wrap': 'wrap', 'text-max-width': '220px', 'font-size': 12,
+          'text-valign': 'center', 'text-halign': 'center', width: 240, height: 72, 'background-color': '#dbeafe',
+          'border-width': 1, 'border-color': '#93c5fd'
+        }
+      },
+      { selector: 'edge', style: { width: 2, 'line-color': '#94a3b8', 'curve-style': 'taxi', 'taxi-direction': 'horizontal' } },
+      { selector: 'node.far', style: { label: '' } }
+    ],
+    layout: { name: 'preset' }
+  })
+  const laid = dagreLayout(graphOf(boxes), DAGRE)
+  cy.nodes().positions(n => laid[n.id()])
+  await nextFrame()
+  log(`Canvas: ${boxes.length} boxes built and drawn in ${ms(performance.now() - start)}`)
+  const full = await zoomFrames(cy, false)
+  const lod = await zoomFrames(cy, true)
+  log(`Zooming out and in: full labels ${full.toFixed(1)} ms/frame → plain boxes below ${LOD_ZOOM * 100}% zoom ${lod.toFixed(1)} ms/frame`)
+  cy.destroy()
+}
+
+async function folding(boxes: Box[], container: HTMLElement) {
+  const build = async (subset: Box[]) => {
+    const start = performance.now()
+    const cy = cytoscape({ container, elements: elementsOf(subset), layout: { name: 'grid' } })
+    await nextFrame()
+    const t = performance.now() - start
+    cy.destroy()
+    return t
+  }
+  // whole levels from the top while they fit, like the diagram's initial fold
+  let shown = boxes.filter(b => b.level <= 1)
+  for (let level = 2; ; level++) {
+    const next = boxes.filter(b => b.level <= level)
+    if (next.length === shown.length || next.length > BUILT_UP_FRONT) break
+    shown = next
+  }
+  if (shown.length === boxes.length) { log('Folding: outline small enough to build in full'); return }
+  const all = await build(boxes)
+  const folded = await build(shown)
+  log(`Opening: all ${boxes.length} boxes ${ms(all)} → ${shown.length} boxes with deeper levels folded ${ms(folded)}`)
+}
+
+let busy = false
+async function run(size: number) {
+  if (busy) return
+  busy = true
+  out.textContent = ''
+  const boxes = syntheticOutline(size)
+  const container = document.getElementById('canvas')!
+  log(`${size} boxes, ${Math.max(...boxes.map(b => b.level))} levels deep`)
+  log()
+  try {
+    measureText(boxes)
+    await layout(boxes)
+    await render(boxes, container)
+    await folding(boxes, container)
+  } catch (err) {
+    log(`Failed: ${String(err)}`)
+  }
+  busy = false
+}
+
+document.querySelectorAll<HTMLButtonElement>('button[data-size]').forEach(b => b.addEventListener('click', () => run(Number(b.dataset.size))))
@@ -1,43 +1,113 @@
 import cytoscape from 'cytoscape'
-import type { Core, CollectionReturnValue, NodeSingular } from 'cytoscape'
-import dagre from 'cytoscape-dagre'
+import type { Core, CollectionReturnValue, EdgeSingular, ElementDefinition, NodeCollection, NodeSingular, SingularElementArgument, StylesheetJsonBlock } from 'cytoscape'
 import svg from 'cytoscape-svg'
-import { useEffect, useRef } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { dagreInBackground, getElk } from '../lib/backgroundLayout'
+import { dagreLayout, type LayoutGraph } from '../lib/layoutEngine'
 import type { WbsNode } from '../lib/parseOutline'
+import type { NodeStyle, ProjectLayout } from '../lib/projectFile'
+import { formatTotals, type RollupResult } from '../lib/rollup'
+import { legendItems, RULE_CLASS_PREFIX, RULE_FIELDS, ruleClass, ruleClasses, type FormatRule } from '../lib/formatRules'
+import type { AttributeKey, WbsAttributes } from '../lib/attributes'
+import { DEFAULT_THEME, levelStyle, type Theme } from '../lib/themes'
+import { viewerHtml, type ViewerBox, type ViewerData } from '../lib/htmlExport'
+import { svgToPdf, type PdfFont, type PdfMeta } from '../lib/pdfExport'
+import { downloadBlob } from '../lib/download'
+import { EMPTY_TITLE_BLOCK, layoutTitleBlock, LEGEND_ROW, type BlockItem, type TitleBlock } from '../lib/titleBlock'
+import { DEFAULT_PRINT_SETUP, printDocument, type Drawing, type PrintSetup } from '../lib/printPages'
+import type { DiffEntry, WbsDiff } from '../lib/diff'
+import { DEFAULT_NUMBERING, type NumberingScheme } from '../lib/numbering'
+import { deleteNode, indentNode, insertChild, insertSibling, moveNode, outdentNode, renameNode, type TreeEdit } from '../lib/wbs'
 
-cytoscape.use(dagre as any)
 cytoscape.use(svg as any)
 
 type Pos = { x: number; y: number }
-export type LayoutMode = 'horizontal' | 'vertical' | 'mindmap'
+export type LayoutMode = 'horizontal' | 'vertical' | 'mindmap' | 'elk-layered' | 'elk-mrtree' | 'org-chart'
+/** sibling order on the canvas; the outline itself is never reordered */
+export type ChildOrder = 'outline' | 'alpha' | 'size'
+/**
+ * What an export covers: the whole WBS, the boxes shown (collapsed branches left out), the view on screen,
+ * the selected boxes, or the selected box's branch. Images can only draw what is shown, so 'all' draws like 'visible'.
+ */
+export type ExportScope = 'all' | 'visible' | 'viewport' | 'selection' | 'subtree'
 
 export type DiagramApi = {
-  downloadPNG: (opts?: { scale?: number; bg?: string; margin?: number }) => void
-  downloadSVG: (opts?: { bg?: string; margin?: number }) => void
-  print: (opts?: { bg?: string; margin?: number }) => void
-  exportJSON: () => string
-  importJSON: (json: string) => void
+  /**
+   * Image exports and print are drawn on `bg`, by default the theme's paper colour, and cover `scope` (default 'all').
+   * They throw (the PNG and PDF reject) when the drawing can't be made.
+   */
+  downloadPNG: (opts?: { scale?: number; bg?: string; margin?: number; scope?: ExportScope }) => Promise<void>
+  downloadSVG: (opts?: { bg?: string; margin?: number; scope?: ExportScope }) => void
+  /** vector PDF of the SVG export, one page the size of the drawing */
+  downloadPDF: (opts?: { bg?: string; margin?: number; scope?: ExportScope; meta?: PdfMeta; fonts?: PdfFont[] }) => Promise<void>
+  /** paper, scale, poster tiles or a page per branch as set in `pages`; a page per branch applies to 'all' and 'visible' */
+  print: (opts?: { bg?: string; margin?: number; scope?: ExportScope; pages?: PrintSetup }) => void
+  /** standalone HTML viewer (pan, zoom, collapse, search, tooltips) of the boxes in `scope`, collapsed ones included */
+  downloadHTML: (opts?: { scope?: ExportScope }) => void
+  /**
+   * Boxes in `scope`, for data exports to cut the tree down to (see lib/wbs subsetTree);
+   * 'subtree' also names its top box. Null when the scope needs a selection and nothing is selected.
+   */
+  getScope: (scope: ExportScope) => { ids: string[]; rootId?: string } | null
+  /** positions, per-node widths and collapsed parents, for the project file */
+  getLayout: () => ProjectLayout
   fitToScreen: () => void
   autoFitAll?: () => void
   undo?: () => void
   redo?: () => void
+  /** structural edits on the selected node (need `onTreeChange`) */
+  addChild?: () => void
+  addSibling?: () => void
+  deleteSelected?: () => void
+  indent?: () => void
+  outdent?: () => void
+  moveNode?: (id: string, parentId: string) => void
 }
 
 type Props = {
   root: WbsNode
   title?: string
   onRename?: (id: string, newLabel: string) => void
+  /** structural edits (add/delete/move) hand the whole new tree back to the owner */
+  onTreeChange?: (next: WbsNode) => void
+  /** bottom-up totals; when given, parent boxes show them under their label */
+  rollup?: RollupResult
+  /** WBS code per node id (see lib/numbering); exported with the nodes */
+  codes?: Map<string, string>
+  /** prefix each box label with its code */
+  showCodes?: boolean
+  /** start index for renumbering a coded outline after structural edits */
+  numbering?: NumberingScheme
+  /** compare view: `root` is diff.merged and boxes are marked added / removed / renamed / moved */
+  diff?: WbsDiff
   onReady?: (api: DiagramApi) => void
   onPositionsChange?: (positions: Record<string, Pos>) => void
+  /** a layout that failed; the boxes are then laid out as a plain tree on the main thread */
+  onLayoutError?: (message: string) => void
   initialPositions?: Record<string, Pos>
+  /** per-node widths, collapsed parents and hand-placed boxes to apply once (a loaded project file, a layout switch) */
+  initialLayout?: Omit<ProjectLayout, 'positions'>
   fontSize?: number
   boxWidth?: number
   boxHeight?: number
   textMaxWidth?: number
   layoutMode?: LayoutMode
+  /** gap between neighbouring boxes of the same level */
+  nodeSpacing?: number
+  /** gap between a parent's level and its children's */
+  rankSpacing?: number
+  childOrder?: ChildOrder
   showGrid?: boolean
   gridSize?: number
   snapToGrid?: boolean
+  /** colours, fonts and per-level boxes, on the canvas and in PNG / SVG / print */
+  theme?: Theme
+  /** conditional formatting; later rules win where they set the same colour */
+  rules?: FormatRule[]
+  /** legend of the rules, on the canvas and in PNG / SVG / print */
+  showLegend?: boolean
+  /** version, author, status date, marking and logo around PNG / SVG / PDF / print */
+  titleBlock?: TitleBlock
 }
 
 /* ---------- helpers ---------- */
@@ -48,29 +118,64 @@ function getVisualRoot(node: WbsNode): WbsNode {
   return node
 }
 
-function toElements(originalRoot: WbsNode) {
+type ElementOptions = {
+  rollup?: RollupResult; codes?: Map<string, string>; showCodes?: boolean; diff?: WbsDiff; childOrder?: ChildOrder; rules?: FormatRule[]
+  /** folded parents whose branches are left out of the graph until they are unfolded */
+  folded?: ReadonlyMap<string, unknown>
+}
+
+const countNodes = (n: WbsNode): number => n.children.reduce((sum, c) => sum + countNodes(c), 1)
+const findNode = (n: WbsNode, id: string): WbsNode | undefined => n.id === id ? n : n.children.reduce<WbsNode | undefined>((hit, c) => hit ?? findNode(c, id), undefined)
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+
+/** Layouts place siblings by `seq` (see toElements), so sorting here is all it takes */
+function orderChildren(children: WbsNode[], order: ChildOrder = 'outline'): WbsNode[] {
+  if (order === 'alpha') return [...children].sort((a, b) => collator.compare(a.label ?? '', b.label ?? ''))
+  if (order === 'size') return [...children].sort((a, b) => countNodes(b) - countNodes(a))
+  return children
+}
+
+function toElements(originalRoot: WbsNode, { rollup, codes, showCodes, diff, childOrder, rules = [], folded }: ElementOptions = {}) {
   const root = getVisualRoot(originalRoot)
   const nodes: any[] = []
   const edges: any[] = []
+  const warned = new Set(rollup?.warnings.map(w => w.id))
+  const changes = new Map<string, DiffEntry[]>()
+  diff?.entries.forEach(e => changes.set(e.id, [...(changes.get(e.id) ?? []), e]))
+  const diffNote = (id: string) => (changes.get(id) ?? [])
+    .map(e => (e.kind === 'renamed' ? `was: ${e.from}` : e.kind === 'moved' ? `moved from: ${e.from}` : ''))
+    .filter(Boolean).join(' · ') || undefined
 
-  // visual root
-  {
-    const lbl = root.label ?? ''
-    nodes.push({
-      data: { id: root.id, label: lbl, level: root.level ?? 0, len: lbl.length, lines: Math.max(1, Math.ceil(lbl.length / 18)) },
-      classes: 'visual-root'
-    })
+  const nodeData = (n: WbsNode) => {
+    const lbl = n.label ?? ''
+    const totals = n.children?.length ? rollup?.totals.get(n.id) : undefined
+    const totalsLine = formatTotals(totals)
+    const code = codes?.get(n.id) || undefined
+    const note = diffNote(n.id)
+    return {
+      id: n.id, seq: nodes.length, kids: n.children.length, label: lbl, level: n.level ?? 0, attrs: n.attrs, rollup: totals, totalsLine, diffNote: note,
+      code, prefix: showCodes && code ? code : undefined,
+      len: lbl.length, lines: Math.max(1, Math.ceil(lbl.length / 18)) + (totalsLine ? 1 : 0) + (note ? 1 : 0)
+    }
   }
+  const nodeClasses = (n: WbsNode, extra: string[] = []) => [
+    ...extra,
+    ...(warned.has(n.id) ? ['rollup-warning'] : []),
+    ...(folded?.has(n.id) ? ['collapsed-parent'] : []),
+    ...ruleClasses(rules, n),
+    ...(changes.get(n.id) ?? []).map(e => `diff-${e.kind}`)
+  ].join(' ')
+
+  // visual root
+  nodes.push({ data: nodeData(root), classes: nodeClasses(root, ['visual-root']) })
 
   const pushChild = (n: WbsNode) => {
-    const lbl = n.label ?? ''
-    nodes.push({
-      data: { id: n.id, label: lbl, level: n.level ?? 0, len: lbl.length, lines: Math.max(1, Math.ceil(lbl.length / 18)) }
-    })
+    nodes.push({ data: nodeData(n), classes: nodeClasses(n) })
   }
 
   const visit = (n: WbsNode) => {
-    for (const c of n.children || []) {
+    if (folded?.has(n.id)) return
+    for (const c of orderChildren(n.children || [], childOrder)) {
       pushChild(c)
       const lvl = c.level ?? 0
       const cpd = 60 + lvl * 30
@@ -80,27 +185,329 @@ function toElements(originalRoot: WbsNode) {
   }
   visit(root)
 
-  return { elements: [...nodes, ...edges] }
+  return { elements: [...nodes, ...edges] as ElementDefinition[] }
 }
 
-function centerParentOverChildren(n: NodeSingular) {
-  const kids = n.outgoers('node')
-  if (kids.empty()) return
-  const bb = kids.boundingBox()
-  const y = n.position('y')
-  const cx = bb.x1 + bb.w / 2
-  n.position({ x: cx, y })
+const MANAGED_CLASSES = ['visual-root', 'rollup-warning', 'diff-added', 'diff-removed', 'diff-renamed', 'diff-moved']
+const sameData = (ele: SingularElementArgument, data: Record<string, unknown>) =>
+  Object.keys(data).every(k => JSON.stringify(ele.data(k)) === JSON.stringify(data[k]))
+
+/**
+ * Bring the live graph in line with freshly built elements: gone ones are removed,
+ * new ones added next to their parent, changed data and classes patched in place.
+ * Reports whether the structure (boxes, links or sibling order) changed, and what was added.
+ */
+function syncElements(cy: Core, elements: ElementDefinition[]): { structural: boolean; added: CollectionReturnValue } {
+  const wanted = new Set(elements.map(e => e.data.id))
+  const gone = cy.elements().filter(e => !wanted.has(e.id()))
+  let structural = gone.nonempty()
+  const added: ElementDefinition[] = []
+  const parentOf = new Map<string, string>()
+  cy.batch(() => {
+    cy.remove(gone)
+    for (const def of elements) {
+      if (def.data.source) parentOf.set(def.data.target!, def.data.source)
+      const ele = cy.getElementById(def.data.id!)
+      if (ele.empty()) { added.push(def); continue }
+      if (ele.isNode() && ele.data('seq') !== def.data.seq) structural = true
+      if (!sameData(ele, def.data)) ele.data(def.data)
+      const classes = new Set(String(def.classes ?? '').split(' '))
+      // rule classes come and go with the rules
+      const ruled = [...ele.classes(), ...classes].filter(c => c.startsWith(RULE_CLASS_PREFIX))
+      for (const c of [...MANAGED_CLASSES, ...ruled]) if (ele.hasClass(c) !== classes.has(c)) ele.toggleClass(c, classes.has(c))
+    }
+  })
+  if (!added.length) return { structural, added: cy.collection() }
+  // until the layout has run, new boxes sit on their parent rather than at the origin
+  const at = new Map<string, Pos>()
+  const near = (id: string): Pos | undefined => {
+    const p = parentOf.get(id); if (!p) return undefined
+    const parent = cy.getElementById(p)
+    return at.get(p) ?? (parent.nonempty() ? { ...parent.position() } : undefined)
+  }
+  return {
+    structural: true,
+    added: cy.add(added.map(def => {
+      const position = def.data.source ? undefined : near(def.data.id!)
+      if (position) at.set(def.data.id!, position)
+      return position ? { ...def, position } : def
+    }))
+  }
+}
+
+/** Plus/minus chevrons for boxes that gained or lost children; new boxes under collapsed parents are hidden */
+function refreshChevrons(cy: Core) {
+  cy.batch(() => {
+    cy.nodes().forEach(n => {
+      const hasChildren = n.data('kids') > 0
+      if (hasChildren === n.hasClass('collapsible')) return
+      if (hasChildren) { n.addClass('collapsible'); setChevronIcon(n, n.hasClass('collapsed-parent')) }
+      else { n.removeClass('collapsible collapsed-parent'); n.removeStyle('background-image') }
+    })
+    cy.nodes('.collapsed-parent').forEach(n => setCollapsedInternal(cy, n.id(), true))
+  })
 }
-function postCenterParentsVertical(cy: Core) {
-  const roots = cy.nodes().roots()
-  roots.forEach(centerParentOverChildren)
-  const l1 = roots.outgoers('node')
-  l1.forEach(centerParentOverChildren)
+
+function setNodeStyle(n: NodeSingular, st: NodeStyle | undefined) {
+  if (st?.width !== undefined) n.style('width', st.width as any); else n.removeStyle('width')
+  if (st?.textMaxWidth !== undefined) n.style('text-max-width', st.textMaxWidth as any); else n.removeStyle('text-max-width')
+}
+
+/** Per-node widths and collapsed parents handed in from outside replace the ones on the canvas */
+function applyLayoutState(cy: Core, { styles, collapsed }: Pick<ProjectLayout, 'styles' | 'collapsed'>) {
+  cy.batch(() => {
+    cy.nodes().forEach(n => setNodeStyle(n, styles[n.id()]))
+    cy.nodes('.collapsed-parent').forEach(n => { n.removeClass('collapsed-parent'); setCollapsedInternal(cy, n.id(), false) })
+    collapsed.forEach(id => {
+      const n = cy.getElementById(id)
+      if (n.nonempty() && n.data('kids') > 0) { n.addClass('collapsed-parent'); setCollapsedInternal(cy, id, true) }
+    })
+  })
+}
+
+/** Most boxes built up front; larger outlines open with their deeper branches folded */
+const FOLD_ABOVE = 1500
+/** Below this zoom labels are unreadable anyway; boxes are drawn plain (class `far`) */
+const LOD_ZOOM = 0.5
+
+/**
+ * Parents to fold: the `collapsed` ones, plus whole levels from the top so at most `limit` boxes
+ * are built (the first level always). Boxes under a collapsed parent aren't built, so don't count.
+ */
+function foldForSize(root: WbsNode, collapsed: readonly string[] = [], limit = FOLD_ABOVE): string[] {
+  const closed = new Set(collapsed)
+  let level = [getVisualRoot(root)], shown = 1
+  while (level.length) {
+    const next = level.filter(n => !closed.has(n.id)).flatMap(n => n.children)
+    if (shown > 1 && shown + next.length > limit) {
+      return [...closed, ...level.filter(n => n.children.length && !closed.has(n.id)).map(n => n.id)]
+    }
+    shown += next.length
+    level = next
+  }
+  return [...closed]
+}
+
+/** Ids below folded parents, i.e. not in the graph */
+function foldedIds(root: WbsNode, folded: ReadonlyMap<string, unknown>): string[] {
+  const ids: string[] = []
+  const all = (n: WbsNode) => n.children.forEach(c => { ids.push(c.id); all(c) })
+  const find = (n: WbsNode) => { if (folded.has(n.id)) all(n); else n.children.forEach(find) }
+  find(root)
+  return ids
+}
+
+/** Box text: optional WBS code prefix, the task label, then the totals line and compare note when there are any */
+function nodeLabel(ele: NodeSingular): string {
+  const prefix = ele.data('prefix')
+  const label = `${prefix ? `${prefix}  ` : ''}${ele.data('label') ?? ''}`
+  return [label, ele.data('totalsLine'), ele.data('diffNote')].filter(Boolean).join('\n')
+}
+
+const boxSize = (n: NodeSingular) => { const d = n.layoutDimensions({ nodeDimensionsIncludeLabels: false }); return { w: d.w, h: d.h } }
+
+/** Boxes added after the first build join the graph at the end, so layouts go by `seq` for sibling order */
+const bySeq = (a: NodeSingular, b: NodeSingular) => a.data('seq') - b.data('seq')
+const nodesInOrder = (cy: Core) => (cy.nodes().toArray() as NodeSingular[]).sort(bySeq)
+const kidsOf = (n: NodeSingular) => (n.outgoers('node').toArray() as NodeSingular[]).sort(bySeq)
+const edgesInOrder = (cy: Core) => cy.edges().toArray().sort((a, b) => a.target().data('seq') - b.target().data('seq'))
+
+/** Box sizes and links as plain data, which is all the layout workers get to see */
+const layoutGraph = (cy: Core): LayoutGraph => ({
+  boxes: nodesInOrder(cy).map(n => { const { w, h } = boxSize(n); return { id: n.id(), width: w, height: h } }),
+  links: edgesInOrder(cy).map(e => ({ id: e.id(), source: e.data('source'), target: e.data('target') }))
+})
+
+/** ELK over the whole graph; it works with top-left corners, cytoscape with centres */
+async function elkPositions(cy: Core, layoutOptions: Record<string, string>): Promise<Record<string, Pos>> {
+  const { boxes, links } = layoutGraph(cy)
+  const laid = await (await getElk()).layout({
+    id: 'root',
+    layoutOptions,
+    children: boxes,
+    edges: links.map(l => ({ id: l.id, sources: [l.source], targets: [l.target] }))
+  })
+  const positions: Record<string, Pos> = {}
+  for (const box of laid.children ?? []) positions[box.id] = { x: (box.x ?? 0) + (box.width ?? 0) / 2, y: (box.y ?? 0) + (box.height ?? 0) / 2 }
+  return positions
+}
+
+/** Vertical tree: the root and the first level sit centred over their children */
+function centerTopLevels(cy: Core, positions: Record<string, Pos>): Record<string, Pos> {
+  const center = (n: NodeSingular) => {
+    const kids = kidsOf(n).filter(k => positions[k.id()])
+    if (!kids.length || !positions[n.id()]) return
+    const x1 = Math.min(...kids.map(k => positions[k.id()].x - boxSize(k).w / 2))
+    const x2 = Math.max(...kids.map(k => positions[k.id()].x + boxSize(k).w / 2))
+    positions[n.id()] = { x: (x1 + x2) / 2, y: positions[n.id()].y }
+  }
+  const roots = cy.nodes().roots().toArray() as NodeSingular[]
+  roots.forEach(center)
+  roots.flatMap(kidsOf).forEach(center)
+  return positions
+}
+
+async function dagrePositions(cy: Core, rankDir: 'TB' | 'LR', nodeSep: number, rankSep: number): Promise<Record<string, Pos>> {
+  const positions = await dagreInBackground(layoutGraph(cy), { rankDir, nodeSep, rankSep })
+  return rankDir === 'TB' ? centerTopLevels(cy, positions) : positions
 }
 
+/** Stored boxes go back where they were; the others keep their layout offset from their parent */
+function placeNodes(cy: Core, laid: Record<string, Pos>, stored: Record<string, Pos>) {
+  cy.batch(() => {
+    cy.elements().breadthFirstSearch({
+      roots: cy.nodes().roots(),
+      visit: (n: NodeSingular) => {
+        const p = stored[n.id()]
+        if (p) { n.position(p); return }
+        const own = laid[n.id()]; if (!own) return
+        const parent = n.incomers('node')
+        const lp = parent.nonempty() ? laid[parent.id()] : undefined
+        if (!lp) { n.position(own); return }
+        const pp = parent.position()
+        n.position({ x: pp.x + own.x - lp.x, y: pp.y + own.y - lp.y })
+      },
+      directed: true
+    })
+  })
+}
+
+/** Centre y of every node with levels `rankSpacing` apart (mrtree spaces levels by its node spacing) */
+function rankCenters(cy: Core, rankSpacing: number): Map<string, number> {
+  const depth = new Map<string, number>()
+  const tallest: number[] = []
+  cy.elements().breadthFirstSearch({
+    roots: cy.nodes().roots(),
+    visit: (n: NodeSingular, _e: unknown, _u: unknown, _i: number, d: number) => {
+      depth.set(n.id(), d)
+      tallest[d] = Math.max(tallest[d] ?? 0, boxSize(n).h)
+    },
+    directed: true
+  })
+  const centers: number[] = []
+  tallest.forEach((h, d) => { centers[d] = d === 0 ? h / 2 : centers[d - 1] + tallest[d - 1] / 2 + rankSpacing + h / 2 })
+  return new Map([...depth].map(([id, d]) => [id, centers[d]]))
+}
+
+/**
+ * Mind map: the root in the centre and its branches split between the right
+ * (top to bottom) and the left (bottom to top, so the map reads clockwise),
+ * the split chosen so both sides are about as tall. Every subtree keeps to its
+ * own horizontal band; collapsed ones only take the room of their parent box.
+ */
+function mindMapPositions(cy: Core, nodeSpacing: number, rankSpacing: number): Record<string, Pos> {
+  const vgap = Math.max(6, nodeSpacing / 3)
+  const hgap = Math.max(20, rankSpacing / 2)
+  const extent = new Map<string, number>()
+  const measure = (n: NodeSingular): number => {
+    const kids = kidsOf(n)
+    const stack = kids.reduce((sum, k) => sum + measure(k), 0) + vgap * Math.max(0, kids.length - 1)
+    const e = n.hasClass('collapsed-parent') ? boxSize(n).h : Math.max(boxSize(n).h, stack)
+    extent.set(n.id(), e)
+    return e
+  }
+
+  const positions: Record<string, Pos> = {}
+  // `edge` is the x of the box side facing its parent; `side` is 1 growing right, -1 growing left
+  const place = (n: NodeSingular, edge: number, top: number, side: number) => {
+    const { w } = boxSize(n), e = extent.get(n.id())!
+    positions[n.id()] = { x: edge + side * w / 2, y: top + e / 2 }
+    stackKids(kidsOf(n), edge + side * (w + hgap), top + e / 2, side)
+  }
+  const stackKids = (kids: NodeSingular[], edge: number, middle: number, side: number) => {
+    const total = kids.reduce((sum, k) => sum + extent.get(k.id())!, 0) + vgap * Math.max(0, kids.length - 1)
+    let y = middle - total / 2
+    for (const k of kids) { place(k, edge, y, side); y += extent.get(k.id())! + vgap }
+  }
+
+  const root = cy.nodes().roots().first()
+  const branches = kidsOf(root)
+  branches.forEach(measure)
+  const weights = branches.map(b => extent.get(b.id())!)
+  const total = weights.reduce((a, b) => a + b, 0)
+  let split = branches.length, best = Infinity, right = 0
+  for (let k = 0; k <= branches.length; k++) {
+    const diff = Math.abs(total - 2 * right)
+    if (k > 0 && diff < best) { best = diff; split = k }
+    right += weights[k] ?? 0
+  }
+  const { w } = boxSize(root)
+  positions[root.id()] = { x: 0, y: 0 }
+  stackKids(branches.slice(0, split), w / 2 + hgap, 0, 1)
+  stackKids(branches.slice(split).reverse(), -w / 2 - hgap, 0, -1)
+  return positions
+}
+
+/**
+ * Org chart: a parent whose children are all leaves lists them in a column below
+ * itself, right of its centre line, instead of spreading them across a level.
+ * ELK places everything else, treating each such parent and its column as one box.
+ */
+async function orgChartPositions(cy: Core, nodeSpacing: number, rankSpacing: number): Promise<Record<string, Pos>> {
+  const gap = Math.max(8, Math.round(nodeSpacing / 3))
+  const columns = new Map<string, NodeSingular[]>()
+  cy.nodes().forEach(n => {
+    const kids = kidsOf(n)
+    if (kids.length && kids.every(k => k.outgoers('node').empty())) columns.set(n.id(), kids)
+  })
+  const stacked = new Set([...columns.values()].flat().map(n => n.id()))
+
+  const block = (n: NodeSingular) => {
+    const { w, h } = boxSize(n)
+    const kids = columns.get(n.id())
+    if (!kids) return { w, h, indent: 0 }
+    const indent = w / 2 + gap * 2
+    const sizes = kids.map(boxSize)
+    return {
+      w: Math.max(w, indent + Math.max(...sizes.map(s => s.w))),
+      h: h + sizes.reduce((sum, s) => sum + gap + s.h, 0),
+      indent
+    }
+  }
+  const blocks = new Map<string, ReturnType<typeof block>>()
+  const graph = {
+    id: 'root',
+    layoutOptions: {
+      'elk.algorithm': 'layered',
+      'elk.direction': 'DOWN',
+      'elk.spacing.nodeNode': String(nodeSpacing),
+      'elk.layered.spacing.nodeNodeBetweenLayers': String(rankSpacing),
+      'elk.layered.considerModelOrder.strategy': 'NODES_AND_EDGES',
+      'elk.layered.crossingMinimization.forceNodeModelOrder': 'true'
+    },
+    children: nodesInOrder(cy).filter(n => !stacked.has(n.id())).map(n => {
+      const b = block(n); blocks.set(n.id(), b)
+      return { id: n.id(), width: b.w, height: b.h, layoutOptions: { 'elk.alignment': 'TOP' } }
+    }),
+    edges: edgesInOrder(cy).filter(e => !stacked.has(e.data('target'))).map(e => ({ id: e.id(), sources: [e.data('source')], targets: [e.data('target')] }))
+  }
+  const laid = await (await getElk()).layout(graph)
+
+  const positions: Record<string, Pos> = {}
+  for (const box of laid.children ?? []) {
+    const n = cy.getElementById(box.id)
+    const { w, h } = boxSize(n)
+    const x = box.x ?? 0
+    let y = box.y ?? 0
+    positions[box.id] = { x: x + w / 2, y: y + h / 2 }
+    y += h
+    for (const kid of columns.get(box.id) ?? []) {
+      const s = boxSize(kid)
+      y += gap
+      positions[kid.id()] = { x: x + blocks.get(box.id)!.indent + s.w / 2, y: y + s.h / 2 }
+      y += s.h
+    }
+  }
+  cy.edges().removeClass('org-stacked')
+  cy.edges().filter(e => stacked.has(e.data('target'))).addClass('org-stacked')
+  return positions
+}
+
+// one canvas for all measuring (auto-fit runs it for every box)
+let measureCtx: CanvasRenderingContext2D | null | undefined
 function measureTextWidth(text: string, fontPx: number, fontFamily = 'Inter, system-ui, Arial, sans-serif') {
-  const canvas = document.createElement('canvas')
-  const ctx = canvas.getContext('2d')
+  if (measureCtx === undefined) measureCtx = document.createElement('canvas').getContext('2d')
+  const ctx = measureCtx
   if (!ctx) return text.length * fontPx * 0.6
   ctx.font = `${Math.max(10, Math.round(fontPx))}px ${fontFamily}`
   return ctx.measureText(text).width
@@ -111,7 +518,7 @@ function autoFitNodeWidth(node: NodeSingular, maxWidth = 720, minWidth = 140, pa
   if (!label) return
   const raw = node.style('font-size') as unknown as string | number
   const fs = typeof raw === 'number' ? raw : (parseFloat(String(raw).replace('px', '')) || 14)
-  const w = measureTextWidth(label, fs)
+  const w = measureTextWidth(label, fs, String(node.style('font-family')))
   const desired = Math.min(maxWidth, Math.max(minWidth, Math.ceil(w + paddingPx * 2)))
   node.style({ width: desired, 'text-max-width': Math.max(40, desired - paddingPx * 2) } as any)
 }
@@ -139,31 +546,149 @@ function setChevronIcon(node: NodeSingular, collapsed: boolean) {
   } as any)
 }
 
+/* HTML viewer (see lib/htmlExport): boxes and lines as laid out, with their computed colours */
+const TOOLTIP_FIELDS = RULE_FIELDS.filter(([f]) => f !== 'label') as Array<[AttributeKey, string]>
+
+function edgePath(e: EdgeSingular): string {
+  const fmt = (p: Pos, i: number) => `${i ? 'L' : 'M'}${Math.round(p.x * 10) / 10} ${Math.round(p.y * 10) / 10}`
+  try {
+    const pts = [e.sourceEndpoint(), ...((e.segmentPoints() as Pos[] | undefined) ?? []), e.targetEndpoint()]
+    if (pts.every(p => p && Number.isFinite(p.x) && Number.isFinite(p.y))) return pts.map(fmt).join('')
+  } catch { /* not drawn yet */ }
+  return [e.source().position(), e.target().position()].map(fmt).join('')
+}
+
+function viewerBox(n: NodeSingular, parent: string | undefined): ViewerBox {
+  const px = (prop: string) => parseFloat(String(n.style(prop))) || 0
+  const attrs: WbsAttributes = n.data('attrs') ?? {}
+  const details: Array<[string, string]> = []
+  if (n.data('code')) details.push(['Code', String(n.data('code'))])
+  for (const [key, name] of TOOLTIP_FIELDS) {
+    const v = attrs[key]
+    if (v !== undefined && String(v).trim() !== '') details.push([name, key === 'percentComplete' ? `${v}%` : String(v)])
+  }
+  if (n.data('totalsLine')) details.push(['Totals', String(n.data('totalsLine'))])
+  return {
+    id: n.id(), parent, x: n.position('x'), y: n.position('y'), w: n.width(), h: n.height(),
+    label: nodeLabel(n), fill: String(n.style('background-color')), border: String(n.style('border-color')), borderWidth: px('border-width'),
+    color: String(n.style('color')), fontSize: px('font-size'), shape: String(n.style('shape')), collapsed: n.hasClass('collapsed-parent'), details
+  }
+}
+
+/** Hidden (collapsed) boxes and lines are measured as well, so they open in place in the viewer */
+function viewerElements(cy: Core, nodes: NodeCollection): Pick<ViewerData, 'boxes' | 'edges'> {
+  const ids = new Set(nodes.map(n => n.id()))
+  const hidden = cy.elements().filter(e => e.style('display') === 'none')
+  hidden.style('display', 'element')
+  try {
+    const edges = (nodes.connectedEdges().toArray() as EdgeSingular[]).filter(e => ids.has(e.source().id()) && ids.has(e.target().id()))
+    return {
+      boxes: nodes.map(n => viewerBox(n, n.incomers('node').filter(p => ids.has(p.id())).first().id() || undefined)),
+      edges: edges.map(e => ({ source: e.source().id(), target: e.target().id(), d: edgePath(e) }))
+    }
+  } finally {
+    hidden.style('display', 'none')
+  }
+}
+
+/* title block of exports (see lib/titleBlock): the same items drawn to SVG and to canvas */
+function svgBlock(doc: Document, items: BlockItem[], x: number, y: number, fontFamily: string): SVGGElement {
+  const ns = 'http://www.w3.org/2000/svg'
+  const g = doc.createElementNS(ns, 'g')
+  g.setAttribute('transform', `translate(${x} ${y})`)
+  const add = (tag: string, attrs: Record<string, string | number>) => {
+    const el = doc.createElementNS(ns, tag)
+    for (const [k, v] of Object.entries(attrs)) el.setAttribute(k, String(v))
+    g.appendChild(el); return el
+  }
+  for (const it of items) {
+    if (it.kind === 'box') add('rect', { x: it.x, y: it.y, width: it.w, height: it.h, rx: 4, fill: it.fill, stroke: it.stroke, 'stroke-width': it.strokeWidth })
+    else if (it.kind === 'image') add('image', { x: it.x, y: it.y, width: it.w, height: it.h, href: it.src })
+    else {
+      add('text', {
+        x: it.x, y: it.y, 'text-anchor': it.anchor, 'font-size': it.size, 'font-weight': it.bold ? 'bold' : 'normal', 'font-family': fontFamily, fill: it.color
+      }).textContent = it.text
+    }
+  }
+  return g
+}
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image(); img.onload = () => resolve(img); img.onerror = () => reject(new Error('The image could not be loaded')); img.src = src
+})
+
+/** Images are loaded first, so everything lands on the canvas in one go */
+async function paintBlock(ctx: CanvasRenderingContext2D, items: BlockItem[], fontFamily: string) {
+  const images = await Promise.all(items.map(it => (it.kind === 'image' ? loadImage(it.src).catch(() => null) : null)))
+  ctx.textBaseline = 'alphabetic'
+  items.forEach((it, i) => {
+    if (it.kind === 'box') {
+      ctx.fillStyle = it.fill; ctx.strokeStyle = it.stroke; ctx.lineWidth = it.strokeWidth
+      ctx.beginPath(); ctx.roundRect(it.x, it.y, it.w, it.h, 4); ctx.fill(); ctx.stroke()
+    } else if (it.kind === 'image') {
+      const img = images[i]; if (img) ctx.drawImage(img, it.x, it.y, it.w, it.h)
+    } else {
+      ctx.font = `${it.bold ? 'bold ' : ''}${it.size}px ${fontFamily}`
+      ctx.textAlign = it.anchor === 'middle' ? 'center' : it.anchor === 'end' ? 'right' : 'left'
+      ctx.fillStyle = it.color
+      ctx.fillText(it.text, it.x, it.y)
+    }
+  })
+}
+
+/* print: exported SVGs are laid out on pages by lib/printPages */
+function toDrawing(xml: string, heading?: string): Drawing {
+  const svgEl = new DOMParser().parseFromString(xml, 'image/svg+xml').documentElement
+  const [x, y, width, height] = (svgEl.getAttribute('viewBox') ?? '').split(/\s+/).map(Number)
+  const ser = new XMLSerializer()
+  const markup = Array.from(svgEl.childNodes, c => ser.serializeToString(c)).join('')
+  return { x: x || 0, y: y || 0, width: width || 1, height: height || 1, markup, heading }
+}
+
+/** Prints from a hidden frame: no popup to be blocked, and the page keeps its focus afterwards */
+function printHtml(html: string) {
+  const frame = document.createElement('iframe')
+  frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;visibility:hidden'
+  document.body.appendChild(frame)
+  const win = frame.contentWindow
+  if (!win) { frame.remove(); throw new Error('The browser would not open a print frame') }
+  win.document.open(); win.document.write(html); win.document.close()
+  win.addEventListener('afterprint', () => setTimeout(() => frame.remove(), 0))
+  setTimeout(() => { win.focus(); win.print() }, 250)
+}
+
 /* snapshot */
 type Snapshot = {
   positions: Record<string, Pos>
   labels: Record<string, string>
-  styles: Record<string, { width?: number; textMaxWidth?: number }>
+  styles: Record<string, NodeStyle>
   collapsed: string[]
+  /** tree at the time of the snapshot, so structural edits can be undone */
+  tree?: WbsNode
 }
 const toNumOrUndef = (v: unknown) => {
   const n = parseFloat(String(v)); return Number.isFinite(n) ? n : undefined
 }
-function snapshot(cy: Core): Snapshot {
+/** Only per-node overrides (auto-fit, imports) count; stylesheet values follow the toolbar sliders */
+const bypassNum = (n: NodeSingular, prop: string) => {
+  const style = (n[0] as unknown as { _private?: { style?: Record<string, { bypass?: boolean } | undefined> } })._private?.style
+  return style?.[prop]?.bypass ? toNumOrUndef(n.style(prop)) : undefined
+}
+function snapshot(cy: Core, tree?: WbsNode): Snapshot {
   const positions: Record<string, Pos> = {}
   const labels: Record<string, string> = {}
-  const styles: Record<string, { width?: number; textMaxWidth?: number }> = {}
+  const styles: Record<string, NodeStyle> = {}
   cy.nodes().forEach(n => {
     const p = n.position()
     positions[n.id()] = { x: p.x, y: p.y }
     labels[n.id()] = String(n.data('label') ?? '')
-    const w = toNumOrUndef(n.style('width') as any)
-    const tw = toNumOrUndef(n.style('text-max-width') as any)
+    const w = bypassNum(n, 'width')
+    const tw = bypassNum(n, 'text-max-width')
     if (w !== undefined || tw !== undefined) styles[n.id()] = { width: w, textMaxWidth: tw }
   })
   const collapsed: string[] = []
   cy.nodes('.collapsed-parent').forEach(n => { collapsed.push(n.id()) })
-  return { positions, labels, styles, collapsed }
+  return { positions, labels, styles, collapsed, tree }
 }
 function applySnapshot(cy: Core, s: Snapshot) {
   cy.startBatch()
@@ -205,70 +730,234 @@ function setCollapsedInternal(cy: Core, parentId: string, collapse: boolean) {
   }
 }
 
-/* JSON export/import */
-function exportJSONFrom(cy: Core, meta: any) {
-  const s = snapshot(cy)
-  const nodes = cy.nodes().map(n => ({
-    id: n.id(),
-    label: String(n.data('label') ?? ''),
-    level: Number(n.data('level') ?? 0),
-    pos: s.positions[n.id()],
-    width: parseFloat(String(n.style('width') as any)) || undefined,
-    wrap: parseFloat(String(n.style('text-max-width') as any)) || undefined,
-    collapsed: n.hasClass('collapsed-parent') || undefined
+type StyleOptions = { layoutMode: LayoutMode; fontSize: number; boxWidth: number; boxHeight: number; textMaxWidth: number; theme: Theme; rules: FormatRule[] }
+
+/** One rule per level the theme styles; deeper levels share the last one */
+function levelRules(theme: Theme): StylesheetJsonBlock[] {
+  return theme.levels.map((l, i) => ({
+    selector: i === theme.levels.length - 1 ? `node[level >= ${i}]` : `node[level = ${i}]`,
+    style: { 'background-color': l.fill, 'border-color': l.border, 'border-width': l.borderWidth, shape: l.shape, color: l.text ?? theme.textColor }
+  }))
+}
+
+/** Formatting rules go over the theme; a border set by a rule is drawn heavier so it reads as a marker */
+function ruleStyles(rules: FormatRule[]): StylesheetJsonBlock[] {
+  return rules.map(r => ({
+    selector: `node.${ruleClass(r)}`,
+    style: {
+      ...(r.fill ? { 'background-color': r.fill } : {}),
+      ...(r.border ? { 'border-color': r.border, 'border-width': 3 } : {}),
+      ...(r.text ? { color: r.text } : {})
+    }
   }))
-  const edges = cy.edges().map(e => ({ source: e.source().id(), target: e.target().id() }))
-  return JSON.stringify({ meta, nodes, edges }, null, 2)
-}
-function importJSONInto(cy: Core, json: string) {
-  const data = JSON.parse(json)
-  if (Array.isArray(data.nodes)) {
-    data.nodes.forEach((n: any) => {
-      const ele = cy.getElementById(n.id)
-      if (ele.nonempty()) {
-        if (n.label != null) ele.data('label', n.label)
-        if (n.pos) ele.position(n.pos)
-        if (n.width != null) ele.style('width', n.width as any)
-        if (n.wrap != null) ele.style('text-max-width', n.wrap as any)
-        if (n.collapsed) ele.addClass('collapsed-parent')
+}
+
+function buildStylesheet({ layoutMode, fontSize, boxWidth, boxHeight, textMaxWidth, theme, rules }: StyleOptions): StylesheetJsonBlock[] {
+  return [
+    {
+      selector: 'node',
+      style: {
+        shape: 'round-rectangle',
+        label: nodeLabel,
+        'text-wrap': 'wrap',
+        'text-max-width': `${textMaxWidth}px`,
+        'font-size': fontSize,
+        'font-family': theme.fontFamily,
+        color: theme.textColor,
+        'text-valign': 'center',
+        'text-halign': 'center',
+        padding: '14px',
+        'border-width': 1,
+        'border-color': '#cbd5e1',
+        'background-color': '#ffffff',
+        'background-opacity': 1,
+        width: boxWidth,
+        height: boxHeight,
+        'shadow-blur': 22,
+        'shadow-color': 'rgba(15,23,42,0.22)',
+        'shadow-opacity': 1,
+        'shadow-offset-x': 0,
+        'shadow-offset-y': 5,
+        'corner-rounding': 12
+      } as any
+    },
+    { selector: 'node:hover', style: { 'border-color': theme.accent, 'border-width': 2, 'shadow-blur': 26, 'shadow-color': 'rgba(37,99,235,0.28)' } as any },
+    { selector: 'node.collapsed-parent', style: { 'border-style': 'dashed' } },
+    ...(layoutMode === 'mindmap'
+      ? [{ selector: 'node', style: { 'font-size': Math.max(10, fontSize - 1), 'text-max-width': '160px', width: 'mapData(len,1,60,90,220)', height: 'mapData(lines,1,6,40,110)', padding: '8px' } as any }]
+      : []),
+    ...levelRules(theme),
+    ...ruleStyles(rules),
+    // after the level rules, which set borders too
+    { selector: 'node:selected', style: { 'border-width': 3, 'border-color': theme.accent, 'background-opacity': 0.98, 'shadow-blur': 28, 'shadow-color': 'rgba(37,99,235,0.35)' } as any },
+    {
+      selector: 'edge',
+      style: {
+        width: theme.edgeWidth,
+        'line-color': theme.edgeColor,
+        'line-opacity': 1,
+        'curve-style': layoutMode === 'mindmap' ? 'round-taxi' : 'taxi',
+        // mind map: out of the side of the parent, bending halfway towards the child
+        ...(layoutMode === 'mindmap' ? {
+          'taxi-direction': 'horizontal',
+          'taxi-turn': '50%',
+          'taxi-radius': 24,
+          'edge-distances': 'intersection'
+        } : {
+
+          'taxi-direction': layoutMode === 'vertical' || layoutMode === 'elk-mrtree' || layoutMode === 'org-chart' ? 'downward' : 'horizontal',
+          'taxi-turn': 20,
+          'taxi-turn-min-distance': 12,
+          'taxi-source-distance': 0,
+          'taxi-target-distance': 0,
+          'taxi-endpoint': 'node',
+          'edge-distances': 'intersection'
+        }),
+        'line-cap': 'square',
+        'line-join': 'miter'
+      } as any
+    },
+    // org chart columns: down the parent's centre line, then across into each box (taxi's L-shape fallback)
+    { selector: 'edge.org-stacked', style: { 'taxi-turn-min-distance': 100000 } },
+    { selector: 'edge:hover', style: { width: theme.edgeWidth + 1, 'line-color': theme.accent } },
+    { selector: 'edge:selected', style: { width: theme.edgeWidth + 1.5, 'line-color': theme.accent } },
+    { selector: 'node.visual-root', style: { 'border-color': levelStyle(theme, 0).border } },
+    { selector: 'node.rollup-warning', style: { 'border-width': 3, 'border-color': '#f59e0b', 'border-style': 'double' } as any },
+    // compare view
+    { selector: 'node.diff-moved', style: { 'border-width': 3, 'border-color': '#9333ea', 'border-style': 'double' } },
+    { selector: 'node.diff-renamed', style: { 'border-width': 3, 'border-color': '#2563eb', 'background-color': '#eff6ff' } },
+    { selector: 'node.diff-added', style: { 'border-width': 3, 'border-color': '#16a34a', 'background-color': '#f0fdf4' } },
+    { selector: 'node.diff-removed', style: { 'border-width': 3, 'border-color': '#dc2626', 'border-style': 'dashed', 'background-color': '#fef2f2', opacity: 0.6 } },
+    // bigger root (1.25×), part of the stylesheet so layouts size it as drawn
+    {
+      selector: 'node.visual-root',
+      style: {
+        'text-max-width': `${Math.round(textMaxWidth * 1.25)}px`,
+        'font-size': fontSize * 1.25,
+        width: boxWidth * 1.25,
+        height: boxHeight * 1.25,
+        padding: `${Math.round(14 * 1.25)}px`,
+        'border-width': levelStyle(theme, 0).borderWidth + 1
       }
-    })
-  }
-  cy.nodes('.collapsed-parent').forEach(n => setCollapsedInternal(cy, n.id(), true))
+    },
+    // zoomed out: no text or chevrons to draw
+    { selector: 'node.far', style: { label: '', 'background-image-opacity': 0 } }
+  ]
 }
 
 /* ---------- component ---------- */
 
+const NO_RULES: FormatRule[] = []
+
 export default function Diagram({
   root,
   title,
   onRename,
+  onTreeChange,
+  rollup,
+  codes,
+  showCodes = false,
+  diff,
   onReady,
   onPositionsChange,
+  onLayoutError,
   initialPositions,
+  initialLayout,
   fontSize = 12,
   boxWidth = 240,
   boxHeight = 72,
   textMaxWidth = 220,
   layoutMode = 'horizontal',
+  nodeSpacing = 60,
+  rankSpacing = 120,
+  childOrder = 'outline',
   showGrid = true,
   gridSize = 10,
-  snapToGrid = true
+  snapToGrid = true,
+  theme = DEFAULT_THEME,
+  rules = NO_RULES,
+  showLegend = false,
+  titleBlock = EMPTY_TITLE_BLOCK,
+  numbering = DEFAULT_NUMBERING
 }: Props) {
   const ref = useRef<HTMLDivElement>(null)
   const cyRef = useRef<Core | null>(null)
   const roRef = useRef<ResizeObserver | null>(null)
   const lastTapRef = useRef<{ id: string; at: number; alt: boolean; shift: boolean; meta: boolean; ctrl: boolean } | null>(null)
-  const dragState = useRef<{ anchorId: string; initialAnchor: Pos; group: Map<string, Pos>; prevSnap?: Snapshot } | null>(null)
+  const dragState = useRef<{ anchorId: string; initialAnchor: Pos; group: Map<string, Pos>; subtree: boolean; prevSnap?: Snapshot } | null>(null)
   const undoRef = useRef<Snapshot[]>([])
   const redoRef = useRef<Snapshot[]>([])
+  const restoreRef = useRef<Snapshot | null>(null) // snapshot to re-apply once the graph has the restored tree (undo of a structural edit)
+  const expectedRootRef = useRef<WbsNode | null>(null) // tree we handed out ourselves; any other root is an outside edit
+  const outsideEditRef = useRef(0) // time of the last outside edit, so a burst of typing is one undo step
+  const selectAfterRef = useRef<string | null>(null)
+  const appliedLayoutRef = useRef<Props['initialLayout'] | null>(null)
+  const reportedRef = useRef<Record<string, Pos> | null>(null) // positions we handed out; they come back as initialPositions
+  const seenPositionsRef = useRef<Record<string, Pos> | undefined>(undefined)
+  const settingsRef = useRef('') // layout and box settings the graph was last laid out with
+  const spacingRef = useRef('') // spacing and sibling order; a change lays out again all but the pinned boxes
+  const respaceRef = useRef(false) // set until a layout run with the new spacing has been placed
+  const pinnedRef = useRef(new Set<string>()) // boxes moved by hand
+  const modeRef = useRef<LayoutMode | null>(null) // layout mode the undo history belongs to
+  const arrangeRunRef = useRef(0) // bumped per layout run; a pending ELK result from an older run (or graph) is dropped
+  const arrangeTimerRef = useRef(0) // edits in quick succession (typing an outline) share one layout run
+  const foldedRef = useRef(new Map<string, Pos | null>()) // folded parents whose branches aren't built yet, with where each stood when its branch was stored
+  const [unfolded, setUnfolded] = useState(0) // bumped when a folded branch opens, so the sync effect builds it
+  const rootRef = useRef(root)
+  rootRef.current = root
+  // cytoscape handlers are bound once; they read the latest props from here
+  const propsRef = useRef({ title, onRename, onTreeChange, onPositionsChange, onLayoutError, initialPositions, gridSize, snapToGrid, theme, rules, showLegend, titleBlock, numbering })
+  propsRef.current = { title, onRename, onTreeChange, onPositionsChange, onLayoutError, initialPositions, gridSize, snapToGrid, theme, rules, showLegend, titleBlock, numbering }
   const historyLimit = 50
 
+  const snap = (cy: Core) => snapshot(cy, rootRef.current)
   const pushUndo = (before: Snapshot) => { undoRef.current.push(before); if (undoRef.current.length > historyLimit) undoRef.current.shift(); redoRef.current = [] }
+  const reportPositions = (positions: Record<string, Pos>) => { reportedRef.current = positions; propsRef.current.onPositionsChange?.(positions) }
+  /** Positions on the canvas, plus the stored ones of boxes that aren't built (folded branches) */
+  const currentPositions = (cy: Core): Record<string, Pos> => {
+    const stored = propsRef.current.initialPositions ?? {}
+    const kept: Record<string, Pos> = {}
+    const walk = (n: WbsNode) => { if (stored[n.id] && cy.getElementById(n.id).empty()) kept[n.id] = stored[n.id]; n.children.forEach(walk) }
+    walk(rootRef.current)
+    return { ...kept, ...snapshot(cy).positions }
+  }
+  /**
+   * Open a folded branch; the sync effect builds it. Returns the stored positions inside it,
+   * moved along if the parent was moved while folded.
+   */
+  const unfold = (node: NodeSingular): Record<string, Pos> => {
+    const folded = foldedRef.current
+    const anchor = folded.get(node.id()), p = node.position()
+    const dx = anchor ? p.x - anchor.x : 0, dy = anchor ? p.y - anchor.y : 0
+    folded.delete(node.id())
+    node.removeClass('collapsed-parent'); setChevronIcon(node, false)
+    setUnfolded(n => n + 1)
+    const stored = propsRef.current.initialPositions ?? {}
+    const moved: Record<string, Pos> = {}
+    for (const id of foldedIds(rootRef.current, new Map([[node.id(), null]]))) {
+      const q = stored[id]; if (q) moved[id] = { x: q.x + dx, y: q.y + dy }
+      const a = folded.get(id); if (a) folded.set(id, { x: a.x + dx, y: a.y + dy })
+    }
+    return moved
+  }
+  const restore = (cy: Core, s: Snapshot) => {
+    applySnapshot(cy, s)
+    const positions = { ...s.positions, ...currentPositions(cy) }
+    for (const id of [...foldedRef.current.keys()]) {
+      const n = cy.getElementById(id)
+      if (n.nonempty() && !s.collapsed.includes(id)) Object.assign(positions, unfold(n))
+    }
+    const { onTreeChange } = propsRef.current
+    if (s.tree && s.tree !== rootRef.current && onTreeChange) {
+      expectedRootRef.current = s.tree; restoreRef.current = s
+      reportPositions(positions)
+      onTreeChange(s.tree)
+    } else reportPositions(positions)
+  }
   const doUndo = () => { const cy = cyRef.current; if (!cy || undoRef.current.length === 0) return
-    const current = snapshot(cy); const prev = undoRef.current.pop()!; redoRef.current.push(current); applySnapshot(cy, prev); onPositionsChange?.(snapshot(cy).positions) }
+    const current = snap(cy); const prev = undoRef.current.pop()!; redoRef.current.push(current); restore(cy, prev) }
   const doRedo = () => { const cy = cyRef.current; if (!cy || redoRef.current.length === 0) return
-    const current = snapshot(cy); const next = redoRef.current.pop()!; undoRef.current.push(current); applySnapshot(cy, next); onPositionsChange?.(snapshot(cy).positions) }
+    const current = snap(cy); const next = redoRef.current.pop()!; undoRef.current.push(current); restore(cy, next) }
 
   const hardCenter = (cy: Core, padding = 60) => {
     try {
@@ -278,17 +967,71 @@ export default function Diagram({
       const z = Math.max(0.02, Math.min(w / (bb.w + padding * 2), h / (bb.h + padding * 2)))
       const cx = bb.x1 + bb.w / 2, cyy = bb.y1 + bb.h / 2
       cy.zoom(z); cy.pan({ x: w / 2 - cx * z, y: h / 2 - cyy * z })
-    } catch {}
+    } catch { /* container gone; there is nothing to centre */ }
   }
+  const fitAll = (cy: Core) => { try { cy.resize() } catch { /* container gone */ } hardCenter(cy, 60) }
 
-  const makeLayout = (cy: Core) => {
-    if (layoutMode === 'vertical') return cy.layout({ name: 'dagre', rankDir: 'TB', nodeSep: 60, rankSep: 120 } as any)
-    if (layoutMode === 'mindmap') {
-      const rootsSel = cy.nodes().roots().map(n => `#${n.id()}`).join(',') || undefined
-      return cy.layout({ name: 'breadthfirst', directed: true, roots: rootsSel, circle: true, spacingFactor: 1.6, avoidOverlap: true, animate: false } as any)
+  /** Where the current layout mode puts every box; all but the mind map are worked out off the main thread */
+  const layoutPositions = (cy: Core): Record<string, Pos> | Promise<Record<string, Pos>> => {
+    if (layoutMode === 'vertical') return dagrePositions(cy, 'TB', nodeSpacing, rankSpacing)
+    if (layoutMode === 'mindmap') return mindMapPositions(cy, nodeSpacing, rankSpacing)
+    if (layoutMode === 'elk-layered') {
+      return elkPositions(cy, {
+        'elk.algorithm': 'layered',
+        'elk.direction': 'RIGHT',
+        'elk.spacing.nodeNode': String(nodeSpacing),
+        'elk.layered.spacing.nodeNodeBetweenLayers': String(rankSpacing),
+        'elk.layered.considerModelOrder.strategy': 'NODES_AND_EDGES',
+        'elk.layered.crossingMinimization.forceNodeModelOrder': 'true'
+      })
+    }
+    if (layoutMode === 'elk-mrtree') {
+      const rankY = rankCenters(cy, rankSpacing)
+      return elkPositions(cy, { 'elk.algorithm': 'mrtree', 'elk.direction': 'DOWN', 'elk.spacing.nodeNode': String(nodeSpacing) })
+        .then(positions => {
+          for (const [id, p] of Object.entries(positions)) p.y = rankY.get(id) ?? p.y
+          return positions
+        })
+    }
+    if (layoutMode === 'org-chart') return orgChartPositions(cy, nodeSpacing, rankSpacing)
+    return dagrePositions(cy, 'LR', nodeSpacing, rankSpacing)
+  }
+
+  /**
+   * Lay the graph out again, keeping stored positions; the viewport only moves when asked to fit.
+   * After a spacing or order change only the pinned boxes keep theirs, and the new positions are reported.
+   */
+  const arrange = (cy: Core, fit: boolean) => {
+    window.clearTimeout(arrangeTimerRef.current)
+    if (cy.destroyed()) return
+    const run = ++arrangeRunRef.current
+    const respace = respaceRef.current
+    const stored = respace
+      ? Object.fromEntries(Object.entries(currentPositions(cy)).filter(([id]) => pinnedRef.current.has(id)))
+      : propsRef.current.initialPositions ?? {}
+    const place = (laid: Record<string, Pos>) => {
+      if (run !== arrangeRunRef.current || cy.destroyed()) return
+      placeNodes(cy, laid, stored)
+      if (respace) { respaceRef.current = false; reportPositions({ ...stored, ...snapshot(cy).positions }) }
+      if (fit) fitAll(cy)
+      // history starts from the laid-out diagram
+      if (undoRef.current.length === 0) undoRef.current = [snap(cy)]
     }
-    return cy.layout({ name: 'dagre', rankDir: 'LR', nodeSep: 60, rankSep: 120 } as any)
+    if ((cy.nodes().toArray() as NodeSingular[]).every(n => stored[n.id()])) { place({}); return }
+    const laid = layoutPositions(cy)
+    if (laid instanceof Promise) {
+      laid.then(place).catch((err: unknown) => {
+        if (run !== arrangeRunRef.current || cy.destroyed()) return
+        const reason = err instanceof Error ? err.message : String(err)
+        propsRef.current.onLayoutError?.(`The layout could not be worked out (${reason}); the boxes are arranged as a plain tree instead.`)
+        const rankDir = layoutMode === 'vertical' || layoutMode === 'elk-mrtree' || layoutMode === 'org-chart' ? 'TB' : 'LR'
+        place(dagreLayout(layoutGraph(cy), { rankDir, nodeSep: nodeSpacing, rankSep: rankSpacing }))
+      })
+    } else place(laid)
   }
+  // effects and timers call the arrange of the latest render, which has the current layout mode and spacing
+  const arrangeRef = useRef(arrange)
+  arrangeRef.current = arrange
 
   const hitChevron = (node: NodeSingular, evt: any): boolean => {
     const bb = node.renderedBoundingBox({ includeOverlays: false })
@@ -298,142 +1041,26 @@ export default function Diagram({
     return x >= rect.x1 && x <= rect.x2 && y >= rect.y1 && y <= rect.y2
   }
 
+  // the graph is built once; the effects below patch it in place
   useEffect(() => {
     if (!ref.current) return
-    const { elements } = toElements(root)
-    undoRef.current = []; redoRef.current = []
-
     const cy = cytoscape({
       container: ref.current,
-      elements,
       boxSelectionEnabled: true,
       selectionType: 'additive',
-      style: [
-        {
-          selector: 'node',
-          style: {
-            shape: 'round-rectangle',
-            label: 'data(label)',
-            'text-wrap': 'wrap',
-            'text-max-width': `${textMaxWidth}px`,
-            'font-size': fontSize,
-            'text-valign': 'center',
-            'text-halign': 'center',
-            padding: '14px',
-            'border-width': 1,
-            'border-color': '#cbd5e1',
-            'background-color': '#ffffff',
-            'background-opacity': 1,
-            width: boxWidth,
-            height: boxHeight,
-            'shadow-blur': 22,
-            'shadow-color': 'rgba(15,23,42,0.22)',
-            'shadow-opacity': 1,
-            'shadow-offset-x': 0,
-            'shadow-offset-y': 5,
-            'corner-rounding': 12
-          } as any
-        },
-        { selector: 'node:hover', style: { 'border-color': '#2563eb', 'border-width': 2, 'shadow-blur': 26, 'shadow-color': 'rgba(37,99,235,0.28)' } as any },
-        { selector: 'node:selected', style: { 'border-width': 3, 'border-color': '#2563eb', 'background-opacity': 0.98, 'shadow-blur': 28, 'shadow-color': 'rgba(37,99,235,0.35)' } as any },
-        { selector: 'node.collapsed-parent', style: { 'border-style': 'dashed', 'border-color': '#64748b' } as any },
-        ...(layoutMode === 'mindmap'
-          ? [{ selector: 'node', style: { 'font-size': Math.max(10, fontSize - 1), 'text-max-width': '160px', width: 'mapData(len,1,60,90,220)', height: 'mapData(lines,1,6,40,110)', padding: '8px' } as any }]
-          : []),
-        { selector: 'node[level = 0]', style: { 'background-color': '#eef2ff', 'border-color': '#c7d2fe' } as any },
-        { selector: 'node[level = 1]', style: { 'background-color': '#dbeafe', 'border-color': '#93c5fd' } as any },
-        { selector: 'node[level = 2]', style: { 'background-color': '#dcfce7', 'border-color': '#86efac' } as any },
-        { selector: 'node[level = 3]', style: { 'background-color': '#fef9c3', 'border-color': '#fde68a' } as any },
-        { selector: 'node[level = 4]', style: { 'background-color': '#fee2e2', 'border-color': '#fca5a5' } as any },
-        { selector: 'node[level >= 5]', style: { 'background-color': '#f1f5f9', 'border-color': '#cbd5e1' } as any },
-        {
-          selector: 'edge',
-          style: {
-            width: 2.5,
-            'line-color': '#94a3b8',
-            'line-opacity': 1,
-            'curve-style': layoutMode === 'mindmap' ? 'unbundled-bezier' : 'taxi',
-            ...(layoutMode !== 'mindmap' ? {
-              'taxi-direction': layoutMode === 'vertical' ? 'downward' : 'horizontal',
-              'taxi-turn': 20,
-              'taxi-turn-min-distance': 12,
-              'taxi-source-distance': 0,
-              'taxi-target-distance': 0,
-              'taxi-endpoint': 'node',
-              'edge-distances': 'intersection'
-            } : {}),
-            'line-cap': 'square',
-            'line-join': 'miter'
-          } as any
-        },
-        { selector: 'edge:hover', style: { width: 3.5, 'line-color': '#64748b' } as any },
-        { selector: 'edge:selected', style: { width: 4, 'line-color': '#2563eb' } as any },
-        { selector: 'node.visual-root', style: { 'border-width': 2, 'border-color': '#94a3b8' } as any }
-      ],
       layout: { name: 'preset' }
     })
 
-    // grid bg
-    const applyGridBg = () => {
-      if (!ref.current) return
-      if (!showGrid) { ref.current.style.background = '#f7f7f7'; return }
-      const g = gridSize
-      ref.current.style.background = `
-        linear-gradient(to right, rgba(0,0,0,0.06) 1px, transparent 1px),
-        linear-gradient(to bottom, rgba(0,0,0,0.06) 1px, transparent 1px),
-        #f7f7f7
-      `
-      ref.current.style.backgroundSize = `${g}px ${g}px, ${g}px ${g}px, auto`
-    }
-    applyGridBg()
-
-    const fitAll = () => {
-      try {
-        cy.resize()
-        const bb = cy.elements().boundingBox()
-        if (isFinite(bb.w) && isFinite(bb.h) && bb.w > 0 && bb.h > 0) {
-          const w = cy.width(), h = cy.height()
-          const z = Math.max(0.02, Math.min(w / (bb.w + 120), h / (bb.h + 120)))
-          const cx = bb.x1 + bb.w / 2, cyy = bb.y1 + bb.h / 2
-          cy.zoom(z); cy.pan({ x: w / 2 - cx * z, y: h / 2 - cyy * z })
-        }
-      } catch {}
-    }
-
-    const makeLayoutAndRun = () => {
-      const layout = makeLayout(cy)
-      if (layoutMode === 'mindmap') { try { cy.reset() } catch {} }
-      const after = () => {
-        if (layoutMode === 'vertical') { try { postCenterParentsVertical(cy) } catch {} }
-        if (initialPositions && Object.keys(initialPositions).length) {
-          cy.nodes().forEach(n => { const p = initialPositions[n.id()]; if (p) n.position(p) })
-        }
-        fitAll()
-      }
-      cy.one('layoutstop', after); layout.run()
-      setTimeout(after, 50); setTimeout(after, 200)
-    }
-
-    cy.ready(() => {
-      makeLayoutAndRun()
-      cy.nodes().forEach(n => {
-        const hasChildren = n.outgoers('node').nonempty()
-        if (hasChildren) { n.addClass('collapsible'); setChevronIcon(n, n.hasClass('collapsed-parent')) }
-        else { n.removeStyle('background-image') }
-      })
-      undoRef.current = [snapshot(cy)]; redoRef.current = []
-    })
-
     // group drag + snap + history + persist
     const startGroupDrag = (evt: any) => {
       const t = evt.target; if (!t || t.group?.() !== 'nodes') return
       const id = t.id(); const sel = cy.$('node:selected')
       let group: CollectionReturnValue
-      if (sel.nonempty() && sel.filter(`#${id}`).nonempty()) group = sel
+      if (sel.nonempty() && sel.contains(t)) group = sel
       else group = cy.collection([t]).union(t.successors('node'))
       const map = new Map<string, Pos>()
       group.forEach(n => { const p = n.position(); map.set(n.id(), { x: p.x, y: p.y }) })
-      dragState.current = { anchorId: id, initialAnchor: { ...t.position() }, group: map, prevSnap: snapshot(cy) }
+      dragState.current = { anchorId: id, initialAnchor: { ...t.position() }, group: map, subtree: group !== sel, prevSnap: snap(cy) }
     }
     const onDragMove = (evt: any) => {
       const st = dragState.current; if (!st) return
@@ -447,6 +1074,7 @@ export default function Diagram({
       cy.endBatch()
     }
     const snapSelectionToGrid = (eles: CollectionReturnValue) => {
+      const { snapToGrid, gridSize } = propsRef.current
       if (!snapToGrid) return
       const z = cy.zoom(), pan = cy.pan(), step = gridSize
       cy.startBatch()
@@ -463,64 +1091,132 @@ export default function Diagram({
     }
     const endGroupDrag = () => {
       const st = dragState.current; if (!st) return
-      const ids = Array.from(st.group.keys())
-      const eles = ids.length ? cy.$(ids.map(i => `#${i}`).join(',')) : cy.collection()
+      // dropping a box (with its subtree) onto another box reparents it
+      if (st.subtree && st.prevSnap && propsRef.current.onTreeChange) {
+        const p = cy.getElementById(st.anchorId).position()
+        const target = cy.nodes(':visible').filter(n => {
+          if (st.group.has(n.id())) return false
+          const bb = n.boundingBox({ includeLabels: false })
+          return p.x >= bb.x1 && p.x <= bb.x2 && p.y >= bb.y1 && p.y <= bb.y2
+        }).last()
+        const edit = target.nonempty() ? moveNode(rootRef.current, st.anchorId, target.id(), undefined, propsRef.current.numbering) : null
+        if (edit) {
+          dragState.current = null
+          applySnapshot(cy, st.prevSnap)
+          const positions = currentPositions(cy)
+          for (const id of st.group.keys()) { delete positions[id]; pinnedRef.current.delete(id) } // re-placed next to the new parent
+          commitTree(edit, st.prevSnap)
+          reportPositions(positions)
+          return
+        }
+      }
+      const eles = cy.nodes().filter(n => st.group.has(n.id()))
       snapSelectionToGrid(eles)
+      // a plain click also ends here: only boxes that actually moved count as placed by hand
+      eles.forEach(n => {
+        const from = st.group.get(n.id())!, p = n.position()
+        if (p.x !== from.x || p.y !== from.y) pinnedRef.current.add(n.id())
+      })
       if (st.prevSnap) pushUndo(st.prevSnap)
       dragState.current = null
-      onPositionsChange?.(snapshot(cy).positions)
+      reportPositions(currentPositions(cy))
     }
     cy.on('grab', 'node', startGroupDrag)
     cy.on('drag', 'node', onDragMove)
     cy.on('dragfree', 'node', endGroupDrag)
     cy.on('free', 'node', endGroupDrag)
 
+    // structural edits: the new tree goes to the owner, the pre-edit snapshot (incl. tree) onto the undo stack
+    const commitTree = (edit: TreeEdit | null, before: Snapshot = snap(cy)) => {
+      const { onTreeChange } = propsRef.current
+      if (!edit || !onTreeChange) return
+      pushUndo(before)
+      expectedRootRef.current = edit.root
+      selectAfterRef.current = edit.id
+      onTreeChange(edit.root)
+    }
+    const selectedId = (): string | null => {
+      const sel = cy.$('node:selected')
+      return sel.length === 1 ? sel.id() : null
+    }
+    const askLabel = () => {
+      const label = window.prompt('New task:', 'New task')
+      return label && label.trim() ? label.trim() : null
+    }
+    const addChild = () => {
+      const id = selectedId(); if (!id) return
+      const label = askLabel(); if (label) commitTree(insertChild(rootRef.current, id, label, propsRef.current.numbering))
+    }
+    const addSibling = () => {
+      const id = selectedId(); if (!id) return
+      const label = askLabel(); if (label) commitTree(insertSibling(rootRef.current, id, label, propsRef.current.numbering))
+    }
+    // a whole branch goes only after a yes; the edit is still one undo step
+    const deleteSelected = () => {
+      const id = selectedId(); if (!id) return
+      const node = findNode(rootRef.current, id)
+      const below = node ? countNodes(node) - 1 : 0
+      if (below > 0 && !window.confirm(`Delete "${node!.label}" and the ${below} task${below === 1 ? '' : 's'} under it?`)) return
+      commitTree(deleteNode(rootRef.current, id, propsRef.current.numbering))
+    }
+    const indent = () => { const id = selectedId(); if (id) commitTree(indentNode(rootRef.current, id, propsRef.current.numbering)) }
+    const outdent = () => { const id = selectedId(); if (id) commitTree(outdentNode(rootRef.current, id, propsRef.current.numbering)) }
+
+    // a folded branch is built when it opens; returns its stored positions (see unfold)
+    const toggleCollapse = (target: NodeSingular): Record<string, Pos> => {
+      if (foldedRef.current.has(target.id())) return unfold(target)
+      const collapsed = target.hasClass('collapsed-parent')
+      if (collapsed) { target.removeClass('collapsed-parent'); setCollapsedInternal(cy, target.id(), false) }
+      else { target.addClass('collapsed-parent'); setCollapsedInternal(cy, target.id(), true) }
+      return {}
+    }
+
     // tap (collapse/rename/auto-fit)
     const onTap = (evt: any) => {
       const target = evt.target; if (!target || target.group?.() !== 'nodes') return
       const id: string = target.id(); const now = Date.now()
       const oe: any = evt.originalEvent
       const alt = !!(oe && oe.altKey), shift = !!(oe && oe.shiftKey), meta = !!(oe && oe.metaKey), ctrl = !!(oe && oe.ctrlKey)
+      const { onRename, onTreeChange } = propsRef.current
 
-      const isParent = target.outgoers('node').nonempty()
+      const isParent = target.data('kids') > 0
       if (isParent && hitChevron(target, evt)) {
-        const before = snapshot(cy)
-        const collapsed = target.hasClass('collapsed-parent')
-        if (collapsed) { target.removeClass('collapsed-parent'); setCollapsedInternal(cy, id, false) }
-        else { target.addClass('collapsed-parent'); setCollapsedInternal(cy, id, true) }
-        pushUndo(before); onPositionsChange?.(snapshot(cy).positions); return
+        const before = snap(cy)
+        const opened = toggleCollapse(target)
+        pushUndo(before); reportPositions({ ...currentPositions(cy), ...opened }); return
       }
 
       const last = lastTapRef.current
       if (last && last.id === id && now - last.at < 300) {
         lastTapRef.current = null
+        let opened: Record<string, Pos> = {}
         if ((meta || ctrl)) {
-          const before = snapshot(cy)
-          const collapsed = target.hasClass('collapsed-parent')
-          if (collapsed) { target.removeClass('collapsed-parent'); setCollapsedInternal(cy, id, false) }
-          else { target.addClass('collapsed-parent'); setCollapsedInternal(cy, id, true) }
+          const before = snap(cy)
+          if (isParent) opened = toggleCollapse(target)
           pushUndo(before)
-        } else if (alt && onRename) {
+        } else if (alt && (onRename || onTreeChange)) {
           const current = String(target.data('label') ?? '')
           const next = window.prompt('Rename task:', current)
           if (next && next.trim() && next !== current) {
-            const before = snapshot(cy)
-            onRename(id, next.trim()); target.data('label', next.trim()); pushUndo(before)
+            const before = snap(cy)
+            target.data('label', next.trim())
+            if (onTreeChange) commitTree({ root: renameNode(rootRef.current, id, next.trim()), id }, before)
+            else { onRename?.(id, next.trim()); pushUndo(before) }
           }
         } else if (shift) {
-          const before = snapshot(cy); target.removeStyle('width'); target.removeStyle('text-max-width'); pushUndo(before)
+          const before = snap(cy); target.removeStyle('width'); target.removeStyle('text-max-width'); pushUndo(before)
         } else {
-          const before = snapshot(cy); autoFitNodeWidth(target, 720, 140, 14); pushUndo(before)
+          const before = snap(cy); autoFitNodeWidth(target, 720, 140, 14); pushUndo(before)
         }
         // FIXED: removed extra ')'
-        onPositionsChange?.(snapshot(cy).positions)
+        reportPositions({ ...currentPositions(cy), ...opened })
       } else {
         lastTapRef.current = { id, at: now, alt, shift, meta, ctrl }
       }
     }
     cy.on('tap', 'node', onTap)
 
-    // keyboard: nudge, help, undo/redo
+    // keyboard: nudge, help, undo/redo, structure (Tab child, Enter sibling, Delete, Alt+←/→ promote/demote)
     const keyHandler = (e: KeyboardEvent) => {
       const hasFocus = document.activeElement &&
         (document.activeElement.tagName === 'INPUT' || document.activeElement.tagName === 'TEXTAREA' || (document.activeElement as HTMLElement).isContentEditable)
@@ -529,37 +1225,83 @@ export default function Diagram({
         window.dispatchEvent(new CustomEvent('wbs-open-help')); return
       }
       if (e.key === 'z' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); if (e.shiftKey) doRedo(); else doUndo(); return }
+      if (propsRef.current.onTreeChange && selectedId()) {
+        if (e.key === 'Tab' && !e.shiftKey) { e.preventDefault(); addChild(); return }
+        if (e.key === 'Enter') { e.preventDefault(); addSibling(); return }
+        if (e.key === 'Delete' || e.key === 'Backspace') { e.preventDefault(); deleteSelected(); return }
+        if (e.altKey && e.key === 'ArrowRight') { e.preventDefault(); indent(); return }
+        if (e.altKey && e.key === 'ArrowLeft') { e.preventDefault(); outdent(); return }
+      }
       const arrows = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight']; if (!arrows.includes(e.key)) return
       const sel = cy.$('node:selected'); if (sel.empty()) return
       e.preventDefault()
-      const base = gridSize || 10, step = e.shiftKey ? base * 10 : base
+      const base = propsRef.current.gridSize || 10, step = e.shiftKey ? base * 10 : base
       const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0
       const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0
-      const before = snapshot(cy)
+      const before = snap(cy)
       cy.startBatch(); sel.forEach(n => { const p = n.position(); n.position({ x: p.x + dx, y: p.y + dy }) }); cy.endBatch()
-      const ids = sel.map(n => `#${n.id()}`).join(','); const eles = ids ? cy.$(ids) : cy.collection()
-      const z = cy.zoom(), pan = cy.pan(), stepPx = gridSize
-      if (snapToGrid) {
-        cy.startBatch()
-        eles.forEach(ele => {
-          const p = ele.position()
-          const sx = p.x * z + pan.x, sy = p.y * z + pan.y
-          const halfW = ele.renderedWidth() / 2, halfH = ele.renderedHeight() / 2
-          const left = sx - halfW, top = sy - halfH
-          const left2 = Math.round(left / stepPx) * stepPx, top2 = Math.round(top / stepPx) * stepPx
-          const sx2 = left2 + halfW, sy2 = top2 + halfH
-          ele.position({ x: (sx2 - pan.x) / z, y: (sy2 - pan.y) / z })
-        })
-        cy.endBatch()
-      }
-      pushUndo(before); onPositionsChange?.(snapshot(cy).positions)
+      snapSelectionToGrid(sel)
+      sel.forEach(n => { pinnedRef.current.add(n.id()) })
+      pushUndo(before); reportPositions(currentPositions(cy))
     }
     window.addEventListener('keydown', keyHandler)
 
+    // level of detail, switched only when the zoom crosses the threshold
+    let far = false
+    cy.on('zoom', () => {
+      if (far === cy.zoom() < LOD_ZOOM) return
+      far = !far
+      cy.batch(() => cy.nodes().toggleClass('far', far))
+    })
+    // title block around image exports; `titled: false` leaves the title to the page heading (print by branch)
+    const exportBlock = (width: number, height: number, margin: number, titled = true) => {
+      const { title, titleBlock, showLegend, rules, theme } = propsRef.current
+      const legend = showLegend ? legendItems(rules) : []
+      return layoutTitleBlock({ title: titled ? title : undefined, block: titleBlock, legend, theme }, width, height, margin)
+    }
+    // exports are drawn in full detail whatever the zoom
+    const withDetail = <T,>(draw: () => T): T => {
+      if (!far) return draw()
+      cy.nodes().removeClass('far')
+      try { return draw() } finally { cy.nodes().addClass('far') }
+    }
+    // everything else is hidden while `draw` runs, so full-size exports are bounded by `eles`
+    const withOnly = <T,>(eles: CollectionReturnValue | undefined, draw: () => T): T => {
+      if (!eles) return draw()
+      const others = cy.elements().not(eles).filter(e => e.visible())
+      cy.batch(() => others.style('display', 'none'))
+      try { return draw() } finally { cy.batch(() => others.style('display', 'element')) }
+    }
+
     // export API
     if (onReady) {
-      const getSvgWithMargin = ({ bg, margin = 80 }: { bg?: string; margin?: number }) => {
-        const raw = (cy as any).svg({ full: true }) as string
+      // the selected boxes, or the selected box and its visible branch; undefined for everything shown
+      const scopeElements = (scope: ExportScope = 'all'): CollectionReturnValue | undefined => {
+        const sel = cy.nodes(':selected')
+        if (scope === 'selection') return sel.union(sel.edgesWith(sel))
+        if (scope === 'subtree') return sel.first().union(sel.first().successors())
+        return undefined
+      }
+      // boxes in `scope`, the branch's top box first; null when the scope needs a selection and there is none
+      const scopeNodes = (scope: ExportScope): NodeCollection | null => {
+        const sel = cy.nodes(':selected')
+        if (scope === 'selection' || scope === 'subtree') {
+          if (sel.empty()) return null
+          return scope === 'selection' ? sel : sel.first().union(sel.first().successors().nodes())
+        }
+        if (scope === 'all') return cy.nodes()
+        const shown = cy.nodes(':visible')
+        if (scope === 'visible') return shown
+        const ext = cy.extent()
+        return shown.filter(n => { const b = n.boundingBox(); return b.x1 < ext.x2 && b.x2 > ext.x1 && b.y1 < ext.y2 && b.y2 > ext.y1 })
+      }
+      // the view on screen as it is drawn, everything else bounded by the elements in scope
+      const scoped = (scope?: ExportScope) => ({ eles: scopeElements(scope), full: scope !== 'viewport' })
+
+      const getSvgWithMargin = ({ bg, margin = 80, eles, full = true, titled = true }: {
+        bg?: string; margin?: number; eles?: CollectionReturnValue; full?: boolean; titled?: boolean
+      }) => {
+        const raw = withOnly(eles, () => withDetail(() => (cy as any).svg({ full }) as string))
         const parser = new DOMParser()
         const doc = parser.parseFromString(raw, 'image/svg+xml')
         const svgEl = doc.documentElement
@@ -569,148 +1311,225 @@ export default function Diagram({
         let w = 0, h = 0, vbX = 0, vbY = 0, vbW = 0, vbH = 0
         if (viewBoxAttr) { const parts = viewBoxAttr.split(/\s+/).map(Number); [vbX, vbY, vbW, vbH] = parts as any; w = vbW; h = vbH }
         else if (widthAttr && heightAttr) { w = parseFloat(widthAttr); h = parseFloat(heightAttr); svgEl.setAttribute('viewBox', `0 0 ${w} ${h}`); vbW = w; vbH = h }
-        const newW = w + margin * 2, newH = h + margin * 2
-        const newViewBox = `${vbX - margin} ${vbY - margin} ${newW} ${newH}`
-        svgEl.setAttribute('viewBox', newViewBox)
-        svgEl.setAttribute('width', String(newW))
-        svgEl.setAttribute('height', String(newH))
+        const block = exportBlock(w, h, margin, titled)
+        const x0 = vbX - block.left, y0 = vbY - block.top
+        svgEl.setAttribute('viewBox', `${x0} ${y0} ${block.width} ${block.height}`)
+        svgEl.setAttribute('width', String(block.width))
+        svgEl.setAttribute('height', String(block.height))
         if (bg) {
           const rect = doc.createElementNS('http://www.w3.org/2000/svg', 'rect')
-          rect.setAttribute('x', String(vbX - margin)); rect.setAttribute('y', String(vbY - margin))
-          rect.setAttribute('width', String(newW)); rect.setAttribute('height', String(newH))
+          rect.setAttribute('x', String(x0)); rect.setAttribute('y', String(y0))
+          rect.setAttribute('width', String(block.width)); rect.setAttribute('height', String(block.height))
           rect.setAttribute('fill', bg); svgEl.insertBefore(rect, svgEl.firstChild)
         }
-        if (title && title.trim()) {
-          const t = doc.createElementNS('http://www.w3.org/2000/svg', 'text')
-          t.textContent = title.trim()
-          t.setAttribute('x', String(vbX - margin + newW / 2))
-          t.setAttribute('y', String(vbY - margin + Math.max(20, margin / 3)))
-          t.setAttribute('text-anchor', 'middle')
-          t.setAttribute('font-size', '20')
-          t.setAttribute('font-weight', '600')
-          t.setAttribute('fill', '#0f172a')
-          const refNode = svgEl.firstChild ? (svgEl.firstChild as ChildNode).nextSibling : null
-          svgEl.insertBefore(t, refNode)
-        }
+        if (block.items.length) svgEl.appendChild(svgBlock(doc, block.items, x0, y0, propsRef.current.theme.fontFamily))
         return new XMLSerializer().serializeToString(svgEl)
       }
 
       const api: DiagramApi = {
-        downloadPNG: ({ scale = 2, bg = '#ffffff', margin = 80 } = {}) => {
-          try {
-            const tight = cy.png({ full: true, scale, bg })
-            const img = new Image()
-            img.onload = () => {
-              const canvas = document.createElement('canvas')
-              canvas.width = img.width + margin * 2
-              canvas.height = img.height + margin * 2
-              const ctx = canvas.getContext('2d')!
-              ctx.fillStyle = bg; ctx.fillRect(0, 0, canvas.width, canvas.height)
-              if (title && title.trim()) {
-                ctx.fillStyle = '#0f172a'
-                ctx.font = '600 20px Inter, system-ui, -apple-system, Segoe UI, Roboto, Arial, sans-serif'
-                ctx.textAlign = 'center'; ctx.textBaseline = 'top'
-                ctx.fillText(title.trim(), canvas.width / 2, Math.max(16, margin / 3))
-              }
-              ctx.drawImage(img, margin, margin)
-              const out = canvas.toDataURL('image/png')
-              const a = document.createElement('a'); a.href = out; a.download = 'wbs.png'
-              document.body.appendChild(a); a.click(); a.remove()
-            }
-            img.src = tight
-          } catch {}
+        downloadPNG: async ({ scale = 2, bg, margin = 80, scope } = {}) => {
+          const { theme } = propsRef.current
+          const paper = bg ?? theme.paper
+          const { eles, full } = scoped(scope)
+          const img = await loadImage(withOnly(eles, () => withDetail(() => cy.png({ full, scale, bg: paper }))))
+          // laid out in diagram pixels like the SVG, then drawn `scale` times larger
+          const block = exportBlock(img.width / scale, img.height / scale, margin)
+          const canvas = document.createElement('canvas')
+          canvas.width = Math.ceil(block.width * scale)
+          canvas.height = Math.ceil(block.height * scale)
+          const ctx = canvas.getContext('2d')
+          if (!ctx) throw new Error('The browser has no canvas to draw on')
+          ctx.scale(scale, scale)
+          ctx.fillStyle = paper; ctx.fillRect(0, 0, block.width, block.height)
+          ctx.drawImage(img, block.left, block.top, img.width / scale, img.height / scale)
+          await paintBlock(ctx, block.items, theme.fontFamily)
+          const out = canvas.toDataURL('image/png')
+          const a = document.createElement('a'); a.href = out; a.download = 'wbs.png'
+          document.body.appendChild(a); a.click(); a.remove()
+        },
+        downloadSVG: ({ bg, margin = 80, scope } = {}) => {
+          const xml = getSvgWithMargin({ bg: bg ?? propsRef.current.theme.paper, margin, ...scoped(scope) })
+          downloadBlob(new Blob([xml], { type: 'image/svg+xml;charset=utf-8' }), 'wbs.svg')
+        },
+        downloadPDF: async ({ bg, margin = 80, scope, meta = {}, fonts } = {}) => {
+          const xml = getSvgWithMargin({ bg: bg ?? propsRef.current.theme.paper, margin, ...scoped(scope) })
+          const blob = await svgToPdf(xml, { meta: { title: propsRef.current.title?.trim() || undefined, ...meta }, fonts })
+          downloadBlob(blob, 'wbs.pdf')
+        },
+        print: ({ bg, margin = 80, scope = 'all', pages = DEFAULT_PRINT_SETUP } = {}) => {
+          const { title, theme } = propsRef.current
+          const paper = bg ?? theme.paper
+          const branches = pages.byBranch && (scope === 'all' || scope === 'visible') ? (cy.nodes('.visual-root').outgoers().nodes(':visible').toArray() as NodeSingular[]).sort(bySeq) : []
+          const drawings = branches.length
+            ? branches.map(b => toDrawing(
+              getSvgWithMargin({ bg: paper, margin: margin / 2, eles: b.union(b.successors()), titled: false }),
+              [b.data('prefix'), b.data('label')].filter(Boolean).join(' ')
+            ))
+            : [toDrawing(getSvgWithMargin({ bg: paper, margin, ...scoped(scope) }))]
+          printHtml(printDocument(drawings, pages, { title: title?.trim(), background: paper, fontFamily: theme.fontFamily, textColor: theme.titleColor }))
+        },
+        downloadHTML: ({ scope = 'all' } = {}) => {
+          const nodes = scopeNodes(scope)
+          if (!nodes?.nonempty()) return
+          const { title, theme } = propsRef.current
+          const html = viewerHtml({
+            title: title?.trim() ?? '',
+            ...viewerElements(cy, nodes),
+            canvas: theme.canvas,
+            fontFamily: theme.fontFamily,
+            textColor: theme.textColor,
+            edgeColor: theme.edgeColor,
+            edgeWidth: theme.edgeWidth,
+            accent: theme.accent,
+            chevrons: { collapsed: `data:image/svg+xml,${PLUS_SVG}`, expanded: `data:image/svg+xml,${MINUS_SVG}` }
+          })
+          downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), 'wbs.html')
         },
-        downloadSVG: ({ bg, margin = 80 } = {}) => {
-          try {
-            const xml = getSvgWithMargin({ bg, margin })
-            const blob = new Blob([xml], { type: 'image/svg+xml;charset=utf-8' })
-            const url = URL.createObjectURL(blob)
-            const a = document.createElement('a'); a.href = url; a.download = 'wbs.svg'
-            document.body.appendChild(a); a.click(); a.remove(); URL.revokeObjectURL(url)
-          } catch {}
+        getScope: (scope) => {
+          const nodes = scopeNodes(scope)
+          if (!nodes) return null
+          // data exports take the whole branch, folded and collapsed boxes included (see lib/wbs subtreeOf)
+          return { ids: nodes.map(n => n.id()), rootId: scope === 'subtree' ? nodes.first().id() : undefined }
         },
-        print: ({ bg, margin = 80 } = {}) => {
-          try {
-            const xml = getSvgWithMargin({ bg: bg ?? '#ffffff', margin })
-            const win = window.open('', '_blank', 'noopener,noreferrer')
-            if (!win) return
-            win.document.open()
-            win.document.write(`<!doctype html><html><head><meta charset="utf-8"><title>WBS</title><style>
-              @page { size: auto; margin: 0; }
-              body { margin: 0; background: white; display: flex; align-items: center; justify-content: center; }
-            </style></head><body>${xml}</body></html>`)
-            win.document.close()
-            setTimeout(() => { win.focus(); win.print(); }, 250)
-          } catch {}
+        getLayout: () => {
+          const { styles, collapsed } = snapshot(cy)
+          // boxes in folded branches keep what they were loaded with
+          const hidden = new Set(foldedIds(rootRef.current, foldedRef.current))
+          const loaded = Object.entries(appliedLayoutRef.current?.styles ?? {}).filter(([id]) => hidden.has(id))
+          const positions = currentPositions(cy)
+          return {
+            positions,
+            styles: { ...Object.fromEntries(loaded), ...styles },
+            collapsed: [...collapsed, ...[...foldedRef.current.keys()].filter(id => hidden.has(id))],
+            pinned: [...pinnedRef.current].filter(id => positions[id])
+          }
         },
-        exportJSON: () => exportJSONFrom(cy, { title, layoutMode, fontSize, boxWidth, boxHeight, textMaxWidth, showGrid, gridSize, snapToGrid }),
-        importJSON: (json: string) => { const before = snapshot(cy); importJSONInto(cy, json); pushUndo(before); cy.resize(); onPositionsChange?.(snapshot(cy).positions) },
-        fitToScreen: () => { try { cy.resize(); hardCenter(cy, 60) } catch {} },
+        fitToScreen: () => fitAll(cy),
         autoFitAll: () => { const pad = 14; cy.nodes().forEach(n => autoFitNodeWidth(n, 720, 140, pad)) },
         undo: doUndo,
-        redo: doRedo
+        redo: doRedo,
+        addChild,
+        addSibling,
+        deleteSelected,
+        indent,
+        outdent,
+        moveNode: (id: string, parentId: string) => commitTree(moveNode(rootRef.current, id, parentId, undefined, propsRef.current.numbering))
       }
       onReady(api)
     }
 
-    // bigger root (1.25×)
-    const scale = 1.25
-    cy.style().selector('node.visual-root').style({
-      'text-max-width': `${Math.round(textMaxWidth * scale)}px`,
-      'font-size': fontSize * scale,
-      width: boxWidth * scale,
-      height: boxHeight * scale,
-      padding: `${Math.round(14 * scale)}px`,
-      'border-width': 3
-    } as any).update()
-
-    cy.nodes().forEach(n => { n.grabify() })
-
     if ('ResizeObserver' in window && ref.current) {
-      const ro = new ResizeObserver(() => { try { cy.resize() } catch {} })
+      const ro = new ResizeObserver(() => { try { cy.resize() } catch { /* graph destroyed before the observer */ } })
       ro.observe(ref.current); roRef.current = ro
     }
 
     cyRef.current = cy
-    return () => { cy.destroy(); cyRef.current = null; roRef.current?.disconnect(); roRef.current = null; window.getSelection?.()?.removeAllRanges?.() }
-  }, [root, layoutMode, showGrid, gridSize, snapToGrid, title, fontSize, boxWidth, boxHeight, textMaxWidth, initialPositions, onPositionsChange])
+    return () => {
+      // a remount (StrictMode) starts from an empty graph again
+      appliedLayoutRef.current = null; seenPositionsRef.current = undefined
+      window.removeEventListener('keydown', keyHandler)
+      cy.destroy(); cyRef.current = null; roRef.current?.disconnect(); roRef.current = null; window.getSelection?.()?.removeAllRanges?.()
+    }
+  }, [])
+
+  useEffect(() => {
+    cyRef.current?.style(buildStylesheet({ layoutMode, fontSize, boxWidth, boxHeight, textMaxWidth, theme, rules }))
+  }, [layoutMode, fontSize, boxWidth, boxHeight, textMaxWidth, theme, rules])
 
-  // live restyle
+  // tree, handed-in layout and positions: patched into the live graph, laid out again only when needed
   useEffect(() => {
     const cy = cyRef.current; if (!cy) return
-    const scale = 1.25, px = (n: number) => Math.round(n)
-    cy.style()
-      .selector('node').style({ 'text-max-width': `${textMaxWidth}px`, 'font-size': fontSize, width: boxWidth, height: boxHeight, padding: '14px' } as any)
-      .selector('node.visual-root').style({
-        'text-max-width': `${px(textMaxWidth * scale)}px`, 'font-size': fontSize * scale,
-        width: boxWidth * scale, height: boxHeight * scale, padding: `${px(14 * scale)}px`, 'border-width': 3
-      } as any)
-      .update()
-  }, [fontSize, boxWidth, boxHeight, textMaxWidth])
+    const first = cy.nodes().empty()
+    if (root !== expectedRootRef.current) {
+      // an outside edit (outline text, import) goes on the undo stack too, one step per burst of typing
+      if (expectedRootRef.current && !first && Date.now() - outsideEditRef.current > 1000) pushUndo(snapshot(cy, expectedRootRef.current))
+      outsideEditRef.current = Date.now()
+      expectedRootRef.current = root
+    }
+    // another layout mode is another arrangement: its history starts over
+    if (layoutMode !== modeRef.current) {
+      if (modeRef.current) { undoRef.current = []; redoRef.current = [] }
+      modeRef.current = layoutMode
+    }
+
+    const loaded = initialLayout && initialLayout !== appliedLayoutRef.current ? initialLayout : null
+    // collapsed parents start out folded, i.e. their branches aren't built; so do the deeper levels of a very large outline
+    const fold = first || loaded ? foldForSize(root, loaded?.collapsed) : null
+    if (fold) foldedRef.current = new Map(fold.map(id => [id, initialPositions?.[id] ?? null]))
+    const { elements } = toElements(root, { rollup, codes, showCodes, diff, childOrder, rules, folded: foldedRef.current })
+    const { structural, added } = syncElements(cy, elements)
+    for (const id of [...foldedRef.current.keys()]) {
+      const n = cy.getElementById(id)
+      if (n.nonempty() && !(n.data('kids') > 0)) foldedRef.current.delete(id)
+    }
+    if (structural) refreshChevrons(cy)
+    if (loaded && fold) {
+      appliedLayoutRef.current = loaded; pinnedRef.current = new Set(loaded.pinned)
+      applyLayoutState(cy, { styles: loaded.styles, collapsed: fold })
+    }
+    else if (appliedLayoutRef.current) {
+      // boxes built later (unfolded branches) get the widths they were loaded with
+      const { styles } = appliedLayoutRef.current
+      cy.batch(() => added.nodes().forEach(n => { if (styles[n.id()]) setNodeStyle(n, styles[n.id()]) }))
+    }
+    if (structural && cy.zoom() < LOD_ZOOM) added.nodes().addClass('far')
+    if (restoreRef.current) { applySnapshot(cy, restoreRef.current); restoreRef.current = null }
+
+    // our own drags and edits come back as initialPositions; only positions from elsewhere (load, reset) re-lay out
+    const moved = initialPositions !== seenPositionsRef.current && initialPositions !== reportedRef.current
+    seenPositionsRef.current = initialPositions
+    const settings = [layoutMode, nodeSpacing, rankSpacing, fontSize, boxWidth, boxHeight, textMaxWidth].join()
+    const resized = settings !== settingsRef.current
+    settingsRef.current = settings
+    const spacing = [nodeSpacing, rankSpacing, childOrder].join()
+    if (spacingRef.current && spacing !== spacingRef.current) respaceRef.current = true
+    spacingRef.current = spacing
+    // widths and collapse are in place first, so the layout sizes boxes and branches as shown
+    if (first || loaded || moved) { respaceRef.current = false; arrangeRef.current(cy, true) }
+    else if (structural || resized || respaceRef.current) {
+      window.clearTimeout(arrangeTimerRef.current)
+      arrangeTimerRef.current = window.setTimeout(() => arrangeRef.current(cy, false), 150)
+    }
+
+    if (selectAfterRef.current) { cy.$(':selected').unselect(); cy.getElementById(selectAfterRef.current).select(); selectAfterRef.current = null }
+  }, [root, rollup, codes, showCodes, diff, childOrder, rules, initialLayout, initialPositions, unfolded, layoutMode, nodeSpacing, rankSpacing, fontSize, boxWidth, boxHeight, textMaxWidth])
 
   // live grid bg
   useEffect(() => {
     if (!ref.current) return
-    if (!showGrid) { ref.current.style.background = '#f7f7f7' }
+    if (!showGrid) { ref.current.style.background = theme.canvas }
     else {
       const g = gridSize
+      // lines in the theme's line colour, faint enough for light and dark canvases
+      const line = `color-mix(in srgb, ${theme.edgeColor} 18%, transparent)`
       ref.current.style.background = `
-        linear-gradient(to right, rgba(0,0,0,0.06) 1px, transparent 1px),
-        linear-gradient(to bottom, rgba(0,0,0,0.06) 1px, transparent 1px),
-        #f7f7f7
+        linear-gradient(to right, ${line} 1px, transparent 1px),
+        linear-gradient(to bottom, ${line} 1px, transparent 1px),
+        ${theme.canvas}
       `
       ref.current.style.backgroundSize = `${g}px ${g}px, ${g}px ${g}px, auto`
     }
-  }, [showGrid, gridSize])
+  }, [showGrid, gridSize, theme])
 
+  const legend = showLegend ? legendItems(rules) : []
   return (
     <div style={{ width: '100%', height: '100%', position: 'relative' }}>
       {title && title.trim() && (
-        <div style={{ position: 'absolute', top: 6, left: 0, right: 0, textAlign: 'center', zIndex: 2, fontWeight: 600, fontSize: 16, color: '#0f172a', pointerEvents: 'none' }}>
+        <div style={{ position: 'absolute', top: 6, left: 0, right: 0, textAlign: 'center', zIndex: 2, fontWeight: 600, fontSize: 16, color: theme.titleColor, fontFamily: theme.fontFamily, pointerEvents: 'none' }}>
           {title.trim()}
         </div>
       )}
-      <div ref={ref} style={{ width: '100%', height: '100%', border: '1px solid #e5e7eb', overflow: 'hidden', position: 'absolute', inset: 0, background: '#f7f7f7' }} />
+      <div ref={ref} style={{ width: '100%', height: '100%', border: '1px solid #e5e7eb', overflow: 'hidden', position: 'absolute', inset: 0, background: theme.canvas }} />
+      {legend.length > 0 && (
+        <div style={{ position: 'absolute', left: 10, bottom: 10, zIndex: 2, padding: '6px 10px', borderRadius: 10, border: '1px solid #e5e7eb', background: theme.paper, color: theme.titleColor, fontFamily: theme.fontFamily, fontSize: 12, pointerEvents: 'none' }}>
+          {legend.map((item, i) => (
+            <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 8, height: LEGEND_ROW }}>
+              <span style={{ width: 26, height: 14, borderRadius: 4, boxSizing: 'border-box', background: item.fill ?? theme.paper, border: `${item.border ? 3 : 1}px solid ${item.border ?? theme.edgeColor}` }} />
+              {item.label}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,86 @@
+// src/components/DocumentMenu.tsx
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { deleteDocument, duplicateDocument, listDocuments, newDocumentId, renameDocument, type DocumentMeta } from '../lib/documents'
+
+type Props = {
+  currentId: string
+  /** called before the open document is deleted, so nothing saves it back */
+  onDeleteCurrent?: () => void
+  buttonStyle: React.CSSProperties
+}
+
+const row: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 6, padding: '4px 0' }
+const small: React.CSSProperties = { fontSize: 11, padding: '2px 6px', borderRadius: 6, border: '1px solid #e5e7eb', background: '#fff', cursor: 'pointer' }
+
+/** Toolbar dropdown listing the documents in browser storage: open, new, rename, duplicate, delete */
+export default function DocumentMenu({ currentId, onDeleteCurrent, buttonStyle }: Props) {
+  const navigate = useNavigate()
+  const [docs, setDocs] = useState<DocumentMeta[]>(listDocuments)
+  const refresh = () => setDocs(listDocuments())
+  const current = docs.find(d => d.id === currentId)
+
+  const rename = (d: DocumentMeta) => {
+    const name = window.prompt('Rename document:', d.name)
+    if (!name || !name.trim()) return
+    if (!renameDocument(d.id, name)) window.alert('Could not rename the document (browser storage may be full).')
+    refresh()
+  }
+  const duplicate = (d: DocumentMeta) => {
+    const copy = duplicateDocument(d.id)
+    if (copy) navigate(`/doc/${copy.id}`)
+    else window.alert('Could not duplicate the document (browser storage may be full).')
+  }
+  const remove = (d: DocumentMeta) => {
+    if (!window.confirm(`Delete "${d.name}"? This cannot be undone.`)) return
+    if (d.id === currentId) {
+      onDeleteCurrent?.()
+      deleteDocument(d.id)
+      const next = listDocuments()[0]
+      navigate(next ? `/doc/${next.id}` : `/doc/${newDocumentId()}`, { replace: true })
+    } else {
+      deleteDocument(d.id); refresh()
+    }
+  }
+
+  return (
+    <details style={{ position: 'relative' }} onToggle={(e) => { if ((e.target as HTMLDetailsElement).open) refresh() }}>
+      <summary style={{ ...buttonStyle, listStyle: 'none', cursor: 'pointer' }} title="Documents saved in this browser">
+        ▼ {current?.name ?? 'Documents'}
+      </summary>
+      <div
+        style={{
+          position: 'absolute',
+          top: '110%',
+          left: 0,
+          minWidth: 320,
+          maxHeight: 360,
+          overflow: 'auto',
+          padding: 8,
+          border: '1px solid #e5e7eb',
+          borderRadius: 10,
+          background: '#fff',
+          boxShadow: '0 10px 30px rgba(0,0,0,0.12)',
+          zIndex: 120
+        }}
+      >
+        <button onClick={() => navigate(`/doc/${newDocumentId()}`)} style={{ ...buttonStyle, width: '100%', marginBottom: 6 }}>+ New document</button>
+        {docs.map(d => (
+          <div key={d.id} style={row}>
+            <button
+              onClick={() => navigate(`/doc/${d.id}`)}
+              style={{ flex: 1, textAlign: 'left', border: 'none', background: 'none', cursor: 'pointer', fontSize: 12, fontWeight: d.id === currentId ? 600 : 400, padding: 0 }}
+              title={`Last saved ${new Date(d.updatedAt).toLocaleString()}`}
+            >
+              {d.name}
+            </button>
+            <button onClick={() => rename(d)} style={small}>Rename</button>
+            <button onClick={() => duplicate(d)} style={small}>Duplicate</button>
+            <button onClick={() => remove(d)} style={{ ...small, color: '#b91c1c' }}>Delete</button>
+          </div>
+        ))}
+        {!docs.length && <div style={{ fontSize: 12, color: '#64748b' }}>No saved documents yet.</div>}
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,83 @@
+// src/components/PrintMenu.tsx
+import { PAPER_SIZES, type Orientation, type PaperSize, type PrintSetup } from '../lib/printPages'
+
+type Props = {
+  setup: PrintSetup
+  onChange: (setup: PrintSetup) => void
+  onPrint: () => void
+  buttonStyle: React.CSSProperties
+}
+
+const row: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 6, padding: '3px 0', fontSize: 12 }
+const select: React.CSSProperties = { fontSize: 12, padding: '2px 4px', borderRadius: 6, border: '1px solid #e5e7eb' }
+const num: React.CSSProperties = { width: 48, fontSize: 12, padding: '1px 4px', border: '1px solid #e5e7eb', borderRadius: 6 }
+
+const whole = (v: string, min: number, max: number) => Math.min(max, Math.max(min, Math.round(Number(v)) || min))
+
+/** Toolbar dropdown: page setup for printing (or saving as PDF from the print dialog) */
+export default function PrintMenu({ setup, onChange, onPrint, buttonStyle }: Props) {
+  const update = (patch: Partial<PrintSetup>) => onChange({ ...setup, ...patch })
+
+  return (
+    <details style={{ position: 'relative' }}>
+      <summary style={{ ...buttonStyle, listStyle: 'none', cursor: 'pointer' }} title="Paper, scale, posters and a page per branch">▼ Print</summary>
+      <div
+        style={{
+          position: 'absolute',
+          top: '110%',
+          right: 0,
+          minWidth: 300,
+          padding: 8,
+          border: '1px solid #e5e7eb',
+          borderRadius: 10,
+          background: '#fff',
+          boxShadow: '0 10px 30px rgba(0,0,0,0.12)',
+          zIndex: 120
+        }}
+      >
+        <div style={row}>
+          Paper
+          <select value={setup.paper} onChange={(e) => update({ paper: e.target.value as PaperSize })} style={select}>
+            {PAPER_SIZES.map(([p, label]) => <option key={p} value={p}>{label}</option>)}
+          </select>
+          <select value={setup.orientation} onChange={(e) => update({ orientation: e.target.value as Orientation })} style={select}>
+            <option value="landscape">Landscape</option>
+            <option value="portrait">Portrait</option>
+          </select>
+        </div>
+        <div style={row}>
+          <label>
+            <input type="radio" checked={setup.fit} onChange={() => update({ fit: true })} /> Fit to
+          </label>
+          <input type="number" min={1} max={20} value={setup.pagesWide} onChange={(e) => update({ pagesWide: whole(e.target.value, 1, 20) })} style={num} disabled={!setup.fit} title="Pages across" />
+          ×
+          <input type="number" min={1} max={20} value={setup.pagesTall} onChange={(e) => update({ pagesTall: whole(e.target.value, 1, 20) })} style={num} disabled={!setup.fit} title="Pages down" />
+          pages
+        </div>
+        <div style={row}>
+          <label>
+            <input type="radio" checked={!setup.fit} onChange={() => update({ fit: false })} /> Scale
+          </label>
+          <input type="number" min={5} max={400} step={5} value={setup.scale} onChange={(e) => update({ scale: whole(e.target.value, 5, 400) })} style={num} disabled={setup.fit} />
+          %
+        </div>
+        <div style={row}>
+          Overlap
+          <input type="number" min={0} max={30} value={setup.overlap} onChange={(e) => update({ overlap: whole(e.target.value, 0, 30) })} style={num} title="Strip repeated on neighbouring pages of a poster" />
+          mm
+          <label style={{ marginLeft: 8 }}>
+            <input type="checkbox" checked={setup.cropMarks} onChange={(e) => update({ cropMarks: e.target.checked })} /> Crop marks
+          </label>
+        </div>
+        <div style={row}>
+          <label title="Each top-level branch on its own page(s), with its name at the top and page numbers at the bottom">
+            <input type="checkbox" checked={setup.byBranch} onChange={(e) => update({ byBranch: e.target.checked })} /> A page per top-level branch
+          </label>
+        </div>
+        <div style={{ ...row, borderTop: '1px solid #e5e7eb', marginTop: 6, paddingTop: 8 }}>
+          <button onClick={onPrint} style={{ ...buttonStyle, marginLeft: 'auto' }}>Print…</button>
+        </div>
+      </div>
+    </details>
+  )
+}
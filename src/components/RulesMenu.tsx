@@ -0,0 +1,85 @@
+// src/components/RulesMenu.tsx
+import { describeRule, newRuleId, RULE_FIELDS, RULE_OPERATORS, statusRules, type FormatRule, type RuleField, type RuleOperator } from '../lib/formatRules'
+
+type Props = {
+  rules: FormatRule[]
+  onChange: (rules: FormatRule[]) => void
+  showLegend: boolean
+  onShowLegend: (show: boolean) => void
+  buttonStyle: React.CSSProperties
+}
+
+const row: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 4, padding: '3px 0', fontSize: 12 }
+const small: React.CSSProperties = { fontSize: 11, padding: '2px 6px', borderRadius: 6, border: '1px solid #e5e7eb', background: '#fff', cursor: 'pointer' }
+const select: React.CSSProperties = { fontSize: 12, padding: '2px 4px', borderRadius: 6, border: '1px solid #e5e7eb' }
+const input: React.CSSProperties = { fontSize: 12, padding: '2px 6px', borderRadius: 6, border: '1px solid #e5e7eb', width: 90 }
+const swatch: React.CSSProperties = { width: 24, height: 20, padding: 0, border: '1px solid #e5e7eb', borderRadius: 4, background: 'none' }
+
+const COLOR_KEYS: Array<['fill' | 'border' | 'text', string, string]> = [
+  ['fill', 'Fill', '#dbeafe'], ['border', 'Border', '#dc2626'], ['text', 'Text', '#0f172a']
+]
+
+/** Toolbar dropdown: conditional formatting rules ("status is late → red border") and the legend */
+export default function RulesMenu({ rules, onChange, showLegend, onShowLegend, buttonStyle }: Props) {
+  const update = (id: string, patch: Partial<FormatRule>) => onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)))
+  const move = (i: number, by: number) => {
+    const next = [...rules]; const [r] = next.splice(i, 1); next.splice(i + by, 0, r); onChange(next)
+  }
+  const add = () => onChange([...rules, { id: newRuleId(), field: 'status', op: 'is', value: 'late', border: '#dc2626', label: '' }])
+  const noValue = (op: RuleOperator) => op === 'empty' || op === 'not-empty'
+
+  return (
+    <details style={{ position: 'relative' }}>
+      <summary style={{ ...buttonStyle, listStyle: 'none', cursor: 'pointer' }} title="Colour boxes by status, owner or any task field">
+        ▼ Formatting{rules.length ? ` (${rules.length})` : ''}
+      </summary>
+      <div
+        style={{
+          position: 'absolute',
+          top: '110%',
+          left: 0,
+          minWidth: 560,
+          maxHeight: 460,
+          overflow: 'auto',
+          padding: 8,
+          border: '1px solid #e5e7eb',
+          borderRadius: 10,
+          background: '#fff',
+          boxShadow: '0 10px 30px rgba(0,0,0,0.12)',
+          zIndex: 120
+        }}
+      >
+        {rules.map((r, i) => (
+          <div key={r.id} style={row}>
+            <select value={r.field} onChange={(e) => update(r.id, { field: e.target.value as RuleField })} style={select}>
+              {RULE_FIELDS.map(([f, label]) => <option key={f} value={f}>{label}</option>)}
+            </select>
+            <select value={r.op} onChange={(e) => update(r.id, { op: e.target.value as RuleOperator })} style={select}>
+              {RULE_OPERATORS.map(([o, label]) => <option key={o} value={o}>{label}</option>)}
+            </select>
+            {!noValue(r.op) && <input value={r.value} onChange={(e) => update(r.id, { value: e.target.value })} style={input} placeholder="value" />}
+            {COLOR_KEYS.map(([key, label, fallback]) => (
+              <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 2 }} title={`${label} colour`}>
+                <input type="checkbox" checked={!!r[key]} onChange={(e) => update(r.id, { [key]: e.target.checked ? fallback : undefined })} />
+                {r[key] ? <input type="color" value={r[key]} onChange={(e) => update(r.id, { [key]: e.target.value })} style={swatch} /> : label}
+              </label>
+            ))}
+            <input value={r.label} onChange={(e) => update(r.id, { label: e.target.value })} style={input} placeholder={describeRule(r)} title="Legend text" />
+            <button onClick={() => move(i, -1)} style={small} disabled={i === 0} title="Earlier (later rules win)">↑</button>
+            <button onClick={() => move(i, 1)} style={small} disabled={i === rules.length - 1} title="Later (later rules win)">↓</button>
+            <button onClick={() => onChange(rules.filter(x => x.id !== r.id))} style={{ ...small, color: '#b91c1c' }}>×</button>
+          </div>
+        ))}
+        {!rules.length && <div style={{ fontSize: 12, color: '#64748b', padding: '4px 0' }}>No rules yet. Boxes matching a rule get its colours; later rules win.</div>}
+        <div style={{ ...row, borderTop: '1px solid #e5e7eb', marginTop: 6, paddingTop: 8 }}>
+          <button onClick={add} style={small}>+ Rule</button>
+          <button onClick={() => onChange([...rules, ...statusRules()])} style={small} title="Late, on hold, done and cancelled">+ Status colours</button>
+          <label style={{ marginLeft: 'auto' }}>
+            <input type="checkbox" checked={showLegend} onChange={(e) => onShowLegend(e.target.checked)} />{' '}
+            Legend on canvas and in exports
+          </label>
+        </div>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,130 @@
+// src/components/ThemeMenu.tsx
+import { BOX_SHAPES, copyTheme, FONT_CHOICES, THEME_PRESETS, type BoxShape, type LevelStyle, type Theme } from '../lib/themes'
+
+type Props = {
+  theme: Theme
+  /** the document's own themes */
+  custom: Theme[]
+  onSelect: (id: string) => void
+  onCustomChange: (themes: Theme[]) => void
+  buttonStyle: React.CSSProperties
+}
+
+const row: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 6, padding: '3px 0', fontSize: 12 }
+const small: React.CSSProperties = { fontSize: 11, padding: '2px 6px', borderRadius: 6, border: '1px solid #e5e7eb', background: '#fff', cursor: 'pointer' }
+const select: React.CSSProperties = { fontSize: 12, padding: '2px 4px', borderRadius: 6, border: '1px solid #e5e7eb' }
+const swatch: React.CSSProperties = { width: 26, height: 20, padding: 0, border: '1px solid #e5e7eb', borderRadius: 4, background: 'none' }
+const num: React.CSSProperties = { width: 44, fontSize: 12, padding: '1px 4px', border: '1px solid #e5e7eb', borderRadius: 6 }
+
+const COLORS: Array<[keyof Theme, string]> = [
+  ['textColor', 'Text'], ['titleColor', 'Title'], ['canvas', 'Canvas'], ['paper', 'Paper'], ['edgeColor', 'Lines'], ['accent', 'Selection']
+]
+
+/** <input type="color"> only takes #rrggbb */
+const hex6 = (c: string) => (/^#[0-9a-f]{6}$/i.test(c) ? c : /^#[0-9a-f]{3}$/i.test(c) ? `#${[...c.slice(1)].map(x => x + x).join('')}` : '#000000')
+
+/** Toolbar dropdown: pick a preset or a document theme; document themes are edited here */
+export default function ThemeMenu({ theme, custom, onSelect, onCustomChange, buttonStyle }: Props) {
+  const editable = custom.some(t => t.id === theme.id)
+  const update = (patch: Partial<Theme>) => onCustomChange(custom.map(t => (t.id === theme.id ? { ...t, ...patch } : t)))
+  const updateLevel = (i: number, patch: Partial<LevelStyle>) => update({ levels: theme.levels.map((l, k) => (k === i ? { ...l, ...patch } : l)) })
+
+  const customize = () => {
+    const name = window.prompt('Name of the new theme:', `${theme.name} (custom)`)
+    if (!name || !name.trim()) return
+    const copy = copyTheme(theme, name)
+    onCustomChange([...custom, copy])
+    onSelect(copy.id)
+  }
+  const remove = () => {
+    if (!window.confirm(`Delete theme "${theme.name}"?`)) return
+    onCustomChange(custom.filter(t => t.id !== theme.id))
+    onSelect(THEME_PRESETS[0].id)
+  }
+  const rename = () => {
+    const name = window.prompt('Rename theme:', theme.name)
+    if (name && name.trim()) update({ name: name.trim() })
+  }
+
+  return (
+    <details style={{ position: 'relative' }}>
+      <summary style={{ ...buttonStyle, listStyle: 'none', cursor: 'pointer' }} title="Colours, fonts and box styles per level">▼ Theme: {theme.name}</summary>
+      <div
+        style={{
+          position: 'absolute',
+          top: '110%',
+          left: 0,
+          minWidth: 360,
+          maxHeight: 460,
+          overflow: 'auto',
+          padding: 8,
+          border: '1px solid #e5e7eb',
+          borderRadius: 10,
+          background: '#fff',
+          boxShadow: '0 10px 30px rgba(0,0,0,0.12)',
+          zIndex: 120
+        }}
+      >
+        <div style={row}>
+          <select value={theme.id} onChange={(e) => onSelect(e.target.value)} style={{ ...select, flex: 1 }}>
+            <optgroup label="Presets">
+              {THEME_PRESETS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+            {custom.length > 0 && (
+              <optgroup label="This document">
+                {custom.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+          <button onClick={customize} style={small} title="Copy this theme into the document to edit it">Customize…</button>
+          {editable && <button onClick={rename} style={small}>Rename</button>}
+          {editable && <button onClick={remove} style={{ ...small, color: '#b91c1c' }}>Delete</button>}
+        </div>
+        {!editable && <div style={{ fontSize: 12, color: '#64748b', padding: '4px 0' }}>Presets are fixed; Customize makes an editable copy saved with this document.</div>}
+        {editable && (
+          <>
+            <div style={row}>
+              Font
+              <select
+                value={Object.keys(FONT_CHOICES).find(k => FONT_CHOICES[k] === theme.fontFamily) ?? ''}
+                onChange={(e) => update({ fontFamily: FONT_CHOICES[e.target.value] })}
+                style={select}
+              >
+                {!Object.values(FONT_CHOICES).includes(theme.fontFamily) && <option value="">{theme.fontFamily}</option>}
+                {Object.keys(FONT_CHOICES).map(k => <option key={k} value={k}>{k}</option>)}
+              </select>
+              Line width
+              <input type="number" min={0.5} max={8} step={0.5} value={theme.edgeWidth} onChange={(e) => update({ edgeWidth: Math.max(0.5, Number(e.target.value) || 1) })} style={num} />
+            </div>
+            <div style={{ ...row, flexWrap: 'wrap' }}>
+              {COLORS.map(([key, label]) => (
+                <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                  <input type="color" value={hex6(theme[key] as string)} onChange={(e) => update({ [key]: e.target.value })} style={swatch} />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <div style={{ fontSize: 12, fontWeight: 600, margin: '6px 0 2px' }}>Boxes per level</div>
+            {theme.levels.map((l, i) => (
+              <div key={i} style={row}>
+                <span style={{ width: 64 }}>{i === theme.levels.length - 1 ? `Level ${i}+` : `Level ${i}`}</span>
+                <input type="color" value={hex6(l.fill)} onChange={(e) => updateLevel(i, { fill: e.target.value })} style={swatch} title="Fill" />
+                <input type="color" value={hex6(l.border)} onChange={(e) => updateLevel(i, { border: e.target.value })} style={swatch} title="Border" />
+                <input type="color" value={hex6(l.text ?? theme.textColor)} onChange={(e) => updateLevel(i, { text: e.target.value })} style={swatch} title="Text" />
+                <input type="number" min={0} max={8} step={0.5} value={l.borderWidth} onChange={(e) => updateLevel(i, { borderWidth: Math.max(0, Number(e.target.value) || 0) })} style={num} title="Border width" />
+                <select value={l.shape} onChange={(e) => updateLevel(i, { shape: e.target.value as BoxShape })} style={select}>
+                  {BOX_SHAPES.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
+            ))}
+            <div style={row}>
+              <button onClick={() => update({ levels: [...theme.levels, { ...theme.levels[theme.levels.length - 1] }] })} style={small}>+ Level</button>
+              <button onClick={() => update({ levels: theme.levels.slice(0, -1) })} style={small} disabled={theme.levels.length < 2}>− Level</button>
+              <span style={{ color: '#64748b' }}>Fill · border · text · border width · shape</span>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  )
+}
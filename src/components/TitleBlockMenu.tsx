@@ -0,0 +1,101 @@
+// src/components/TitleBlockMenu.tsx
+import { fitLogo, LOGO_HEIGHT, type TitleBlock } from '../lib/titleBlock'
+
+type Props = {
+  block: TitleBlock
+  onChange: (block: TitleBlock) => void
+  showLegend: boolean
+  onShowLegend: (show: boolean) => void
+  /** shown as the version placeholder: exports use it when the field is empty */
+  latestVersion?: string
+  buttonStyle: React.CSSProperties
+}
+
+const row: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 6, padding: '3px 0', fontSize: 12 }
+const small: React.CSSProperties = { fontSize: 11, padding: '2px 6px', borderRadius: 6, border: '1px solid #e5e7eb', background: '#fff', cursor: 'pointer' }
+const input: React.CSSProperties = { flex: 1, fontSize: 12, padding: '2px 6px', borderRadius: 6, border: '1px solid #e5e7eb' }
+const label: React.CSSProperties = { width: 84, color: '#475569' }
+
+const MARKINGS = ['Confidential', 'Internal', 'Restricted', 'Public', 'Draft']
+
+/** The logo is redrawn at twice its export size, so a large image doesn't bloat the project file */
+function readLogo(file: File): Promise<TitleBlock['logo']> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.onload = () => {
+      URL.revokeObjectURL(url)
+      const size = fitLogo(img.naturalWidth || LOGO_HEIGHT, img.naturalHeight || LOGO_HEIGHT)
+      const canvas = document.createElement('canvas')
+      canvas.width = size.width * 2; canvas.height = size.height * 2
+      canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height)
+      resolve({ src: canvas.toDataURL('image/png'), ...size })
+    }
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('Not an image')) }
+    img.src = url
+  })
+}
+
+/** Toolbar dropdown: everything printed around the diagram in PNG, SVG, PDF and print */
+export default function TitleBlockMenu({ block, onChange, showLegend, onShowLegend, latestVersion, buttonStyle }: Props) {
+  const update = (patch: Partial<TitleBlock>) => onChange({ ...block, ...patch })
+  const pickLogo = (file: File | undefined) => {
+    if (!file) return
+    readLogo(file).then(logo => update({ logo })).catch(() => window.alert('Could not read that image.'))
+  }
+
+  return (
+    <details style={{ position: 'relative' }}>
+      <summary style={{ ...buttonStyle, listStyle: 'none', cursor: 'pointer' }} title="Version, author, status date, marking, logo and legend on exports">▼ Title block</summary>
+      <div
+        style={{
+          position: 'absolute',
+          top: '110%',
+          left: 0,
+          minWidth: 340,
+          padding: 8,
+          border: '1px solid #e5e7eb',
+          borderRadius: 10,
+          background: '#fff',
+          boxShadow: '0 10px 30px rgba(0,0,0,0.12)',
+          zIndex: 120
+        }}
+      >
+        <div style={row}>
+          <span style={label}>Version</span>
+          <input value={block.version} onChange={(e) => update({ version: e.target.value })} placeholder={latestVersion ?? 'e.g. Rev B'} style={input} />
+        </div>
+        <div style={row}>
+          <span style={label}>Author</span>
+          <input value={block.author} onChange={(e) => update({ author: e.target.value })} style={input} />
+        </div>
+        <div style={row}>
+          <span style={label}>Status date</span>
+          <input type="date" value={block.statusDate} onChange={(e) => update({ statusDate: e.target.value })} style={input} />
+          <button onClick={() => update({ statusDate: new Date().toISOString().slice(0, 10) })} style={small}>Today</button>
+        </div>
+        <div style={row}>
+          <span style={label}>Marking</span>
+          <input value={block.marking} onChange={(e) => update({ marking: e.target.value })} list="title-block-markings" placeholder="none" style={input} />
+          <datalist id="title-block-markings">
+            {MARKINGS.map(m => <option key={m} value={m} />)}
+          </datalist>
+        </div>
+        <div style={row}>
+          <span style={label}>Logo</span>
+          {block.logo && <img src={block.logo.src} alt="" style={{ height: 24, maxWidth: 90, objectFit: 'contain' }} />}
+          <label style={small}>
+            {block.logo ? 'Replace…' : 'Choose…'}
+            <input type="file" accept="image/png,image/jpeg" onChange={(e) => { pickLogo(e.target.files?.[0]); e.target.value = '' }} style={{ display: 'none' }} />
+          </label>
+          {block.logo && <button onClick={() => update({ logo: undefined })} style={{ ...small, color: '#b91c1c' }}>Remove</button>}
+        </div>
+        <div style={{ ...row, borderTop: '1px solid #e5e7eb', marginTop: 6, paddingTop: 8 }}>
+          <label>
+            <input type="checkbox" checked={showLegend} onChange={(e) => onShowLegend(e.target.checked)} /> Legend of the formatting rules
+          </label>
+        </div>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,103 @@
+// src/components/VersionMenu.tsx
+import { useState } from 'react'
+import { CURRENT_VERSION, deleteVersion, listVersions, readVersion, saveVersion, type VersionMeta } from '../lib/documents'
+import type { ProjectFile } from '../lib/projectFile'
+
+export type CompareRequest = { from: string; to: string; fromName: string; toName: string }
+
+type Props = {
+  docId: string
+  /** project file of the document as it is now */
+  getProjectJSON: () => string
+  onRestore: (file: ProjectFile) => void
+  onCompare: (request: CompareRequest) => void
+  /** the stored versions, newest first, whenever they are read again */
+  onVersionsChange?: (versions: VersionMeta[]) => void
+  buttonStyle: React.CSSProperties
+}
+
+const row: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 6, padding: '4px 0' }
+const small: React.CSSProperties = { fontSize: 11, padding: '2px 6px', borderRadius: 6, border: '1px solid #e5e7eb', background: '#fff', cursor: 'pointer' }
+const select: React.CSSProperties = { fontSize: 12, padding: '2px 4px', borderRadius: 6, border: '1px solid #e5e7eb', maxWidth: 130 }
+
+/** Toolbar dropdown: save named versions of the document, restore them, and compare any two */
+export default function VersionMenu({ docId, getProjectJSON, onRestore, onCompare, onVersionsChange, buttonStyle }: Props) {
+  const [versions, setVersions] = useState<VersionMeta[]>([])
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState(CURRENT_VERSION)
+  const refresh = () => {
+    const list = listVersions(docId)
+    setVersions(list)
+    onVersionsChange?.(list)
+    if (!list.some(v => v.id === from)) setFrom(list[list.length - 1]?.id ?? CURRENT_VERSION)
+  }
+  const nameOf = (id: string) => (id === CURRENT_VERSION ? 'Current' : versions.find(v => v.id === id)?.name ?? id)
+
+  const save = () => {
+    const name = window.prompt('Version name (e.g. Baseline, Rev A):', versions.length ? `Rev ${String.fromCharCode(64 + versions.length)}` : 'Baseline')
+    if (!name || !name.trim()) return
+    if (!saveVersion(docId, name, getProjectJSON())) window.alert('Could not save the version (browser storage may be full).')
+    refresh()
+  }
+  const restore = (v: VersionMeta) => {
+    if (!window.confirm(`Replace the current outline and layout with "${v.name}"? Save a version first to keep the current state.`)) return
+    const file = readVersion(docId, v.id)
+    if (file) onRestore(file)
+    else window.alert('This version could not be read.')
+  }
+  const remove = (v: VersionMeta) => {
+    if (!window.confirm(`Delete version "${v.name}"?`)) return
+    if (!deleteVersion(docId, v.id)) window.alert('Could not delete the version (browser storage may be full).')
+    refresh()
+  }
+  const compare = (a: string, b: string) => onCompare({ from: a, to: b, fromName: nameOf(a), toName: nameOf(b) })
+
+  return (
+    <details style={{ position: 'relative' }} onToggle={(e) => { if ((e.target as HTMLDetailsElement).open) refresh() }}>
+      <summary style={{ ...buttonStyle, listStyle: 'none', cursor: 'pointer' }} title="Named versions and compare">▼ Versions</summary>
+      <div
+        style={{
+          position: 'absolute',
+          top: '110%',
+          left: 0,
+          minWidth: 340,
+          maxHeight: 380,
+          overflow: 'auto',
+          padding: 8,
+          border: '1px solid #e5e7eb',
+          borderRadius: 10,
+          background: '#fff',
+          boxShadow: '0 10px 30px rgba(0,0,0,0.12)',
+          zIndex: 120
+        }}
+      >
+        <button onClick={save} style={{ ...buttonStyle, width: '100%', marginBottom: 6 }}>Save current as version…</button>
+        {versions.map(v => (
+          <div key={v.id} style={row}>
+            <span style={{ flex: 1, fontSize: 12 }} title={new Date(v.createdAt).toLocaleString()}>
+              {v.name} <span style={{ color: '#94a3b8' }}>{new Date(v.createdAt).toLocaleDateString()}</span>
+            </span>
+            <button onClick={() => compare(v.id, CURRENT_VERSION)} style={small} title="Compare this version with the current outline">Compare</button>
+            <button onClick={() => restore(v)} style={small}>Restore</button>
+            <button onClick={() => remove(v)} style={{ ...small, color: '#b91c1c' }}>Delete</button>
+          </div>
+        ))}
+        {!versions.length && <div style={{ fontSize: 12, color: '#64748b' }}>No versions yet.</div>}
+        {versions.length > 0 && (
+          <div style={{ ...row, borderTop: '1px solid #e5e7eb', marginTop: 6, paddingTop: 8, fontSize: 12 }}>
+            <select value={from} onChange={(e) => setFrom(e.target.value)} style={select}>
+              {versions.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+              <option value={CURRENT_VERSION}>Current</option>
+            </select>
+            →
+            <select value={to} onChange={(e) => setTo(e.target.value)} style={select}>
+              {versions.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+              <option value={CURRENT_VERSION}>Current</option>
+            </select>
+            <button onClick={() => compare(from, to)} style={small} disabled={from === to}>Compare</button>
+          </div>
+        )}
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { attributeForHeader, formatAttributeSuffix, parseDays, parsePercent, splitAttributes } from './attributes'
+
+describe('parsePercent', () => {
+  it('reads numbers as percent units', () => {
+    expect(parsePercent(1)).toBe(1)
+    expect(parsePercent(0.5)).toBe(0.5)
+    expect(parsePercent(40)).toBe(40)
+  })
+
+  it('reads text with or without a percent sign', () => {
+    expect(parsePercent('40%')).toBe(40)
+    expect(parsePercent(' 7 ')).toBe(7)
+    expect(parsePercent('')).toBeUndefined()
+  })
+
+  it('clamps to 0–100', () => {
+    expect(parsePercent(150)).toBe(100)
+    expect(parsePercent(-5)).toBe(0)
+    expect(parsePercent('250%')).toBe(100)
+    expect(parsePercent(Number.NaN)).toBeUndefined()
+  })
+})
+
+describe('parseDays', () => {
+  it('converts hours and weeks to days', () => {
+    expect(parseDays('40h')).toBe(5)
+    expect(parseDays('2w')).toBe(10)
+    expect(parseDays(16, 'h')).toBe(2)
+  })
+})
+
+describe('attributeForHeader', () => {
+  const key = (h: string) => attributeForHeader(h)?.key ?? null
+
+  it('maps our own export headers back', () => {
+    expect(key('Owner')).toBe('owner')
+    expect(key('Effort (days)')).toBe('effort')
+    expect(key('Duration (days)')).toBe('duration')
+    expect(key('% Complete')).toBe('percentComplete')
+    expect(key('Notes')).toBe('notes')
+  })
+
+  it('prefers the specific meaning of a qualified header', () => {
+    expect(key('Estimated Cost')).toBe('cost')
+    expect(key('Estimated Finish')).toBe('finish')
+    expect(key('Planned Start')).toBe('start')
+    expect(key('Estimate (h)')).toBe('effort')
+  })
+
+  it('leaves look-alike columns alone', () => {
+    expect(key('Lead time')).toBeNull()
+    expect(key('Status date')).toBeNull()
+    expect(key('Work package')).toBeNull()
+    expect(key('Parent WBS')).toBeNull()
+    expect(key('Level')).toBeNull()
+  })
+
+  it('flags hour columns', () => {
+    expect(attributeForHeader('Work (hrs)')).toEqual({ key: 'effort', hours: true })
+    expect(attributeForHeader('Effort')).toEqual({ key: 'effort', hours: false })
+  })
+})
+
+describe('outline attribute blocks', () => {
+  it('round-trips through the text form', () => {
+    const attrs = { owner: 'Team; B', effort: 5, status: 'late' as const, percentComplete: 1 }
+    const line = `Build${formatAttributeSuffix(attrs)}`
+    expect(splitAttributes(line)).toEqual({ label: 'Build', attrs })
+  })
+
+  it('keeps braces without attributes in the label', () => {
+    expect(splitAttributes('Set up {staging}')).toEqual({ label: 'Set up {staging}' })
+  })
+})
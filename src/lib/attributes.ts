@@ -0,0 +1,210 @@
+// src/lib/attributes.ts
+
+export type WbsStatus = 'not-started' | 'in-progress' | 'done' | 'late' | 'on-hold' | 'cancelled'
+
+/** Optional task data carried by a WbsNode */
+export type WbsAttributes = {
+  owner?: string
+  /** effort estimate in person-days */
+  effort?: number
+  /** duration estimate in working days */
+  duration?: number
+  /** ISO dates (YYYY-MM-DD) */
+  start?: string
+  finish?: string
+  status?: WbsStatus
+  cost?: number
+  /** 0–100 */
+  percentComplete?: number
+  notes?: string
+}
+
+export type AttributeKey = keyof WbsAttributes
+
+/** Canonical order; also the key names written into outline text */
+export const ATTRIBUTE_KEYS: AttributeKey[] = [
+  'owner', 'effort', 'duration', 'start', 'finish', 'status', 'cost', 'percentComplete', 'notes'
+]
+
+const TEXT_KEY: Record<AttributeKey, string> = {
+  owner: 'owner',
+  effort: 'effort',
+  duration: 'duration',
+  start: 'start',
+  finish: 'finish',
+  status: 'status',
+  cost: 'cost',
+  percentComplete: 'complete',
+  notes: 'notes'
+}
+
+/* ============================================================
+   VALUE NORMALIZERS (shared by outline text and spreadsheets)
+   ============================================================ */
+
+const STATUS_ALIASES: Record<string, WbsStatus> = {
+  'not started': 'not-started', 'not-started': 'not-started', todo: 'not-started', planned: 'not-started', open: 'not-started',
+  'in progress': 'in-progress', 'in-progress': 'in-progress', started: 'in-progress', active: 'in-progress', wip: 'in-progress',
+  done: 'done', complete: 'done', completed: 'done', closed: 'done', finished: 'done',
+  late: 'late', overdue: 'late', behind: 'late', delayed: 'late', 'at risk': 'late',
+  'on hold': 'on-hold', 'on-hold': 'on-hold', hold: 'on-hold', blocked: 'on-hold', paused: 'on-hold',
+  cancelled: 'cancelled', canceled: 'cancelled', dropped: 'cancelled'
+}
+
+export function parseStatus(v: unknown): WbsStatus | undefined {
+  const key = String(v ?? '').trim().toLowerCase().replace(/[_\s]+/g, ' ')
+  return STATUS_ALIASES[key]
+}
+
+/** "1,250.50", "$1200", "€ 3 400" → number */
+export function parseAmount(v: unknown): number | undefined {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : undefined
+  const s = String(v ?? '').replace(/[^\d.,-]/g, '').replace(/,(?=\d{3}(\D|$))/g, '').replace(',', '.')
+  if (!s) return undefined
+  const n = parseFloat(s)
+  return Number.isFinite(n) ? n : undefined
+}
+
+/** "5", "5d", "40h", "2w" → days (8h day, 5-day week); `unit` applies to bare numbers */
+export function parseDays(v: unknown, unit: 'd' | 'h' = 'd'): number | undefined {
+  if (typeof v === 'number') return Number.isFinite(v) ? (unit === 'h' ? v / 8 : v) : undefined
+  const m = String(v ?? '').trim().toLowerCase().match(/^(-?\d+(?:[.,]\d+)?)\s*(h|hrs?|hours?|d|days?|w|wks?|weeks?)?$/)
+  if (!m) return undefined
+  const n = parseFloat(m[1].replace(',', '.'))
+  const u = m[2]?.[0] ?? unit
+  return u === 'h' ? n / 8 : u === 'w' ? n * 5 : n
+}
+
+/**
+ * "40", "40%", 40 → 40, clamped to 0–100. Numbers are always percent units, so
+ * 1 stays 1%; spreadsheet cells formatted as percent arrive as text ("40%", see importers).
+ */
+export function parsePercent(v: unknown): number | undefined {
+  const n = typeof v === 'number' ? v : parseAmount(String(v ?? '').replace('%', ''))
+  return n === undefined || !Number.isFinite(n) ? undefined : Math.max(0, Math.min(100, n))
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+const isoDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+
+/** ISO strings, anything Date can read, or Excel serial day numbers → YYYY-MM-DD */
+export function parseDate(v: unknown): string | undefined {
+  if (v instanceof Date) return Number.isNaN(v.getTime()) ? undefined : isoDate(v)
+  if (typeof v === 'number' && v > 0) {
+    const d = new Date(Date.UTC(1899, 11, 30) + Math.round(v) * 86400000)
+    return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`
+  }
+  const s = String(v ?? '').trim()
+  if (!s) return undefined
+  const iso = s.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+  const d = new Date(s)
+  return Number.isNaN(d.getTime()) ? undefined : isoDate(d)
+}
+
+/** Normalize one raw value for an attribute; undefined when it cannot be read */
+export function coerceAttribute(key: AttributeKey, v: unknown, hours = false): WbsAttributes[AttributeKey] {
+  switch (key) {
+    case 'effort':
+    case 'duration': return parseDays(v, hours ? 'h' : 'd')
+    case 'cost': return parseAmount(v)
+    case 'percentComplete': return parsePercent(v)
+    case 'start':
+    case 'finish': return parseDate(v)
+    case 'status': return parseStatus(v)
+    default: {
+      const s = String(v ?? '').trim()
+      return s || undefined
+    }
+  }
+}
+
+/** Set a value on an attribute record, skipping blanks; returns the record for chaining */
+export function setAttribute(attrs: WbsAttributes, key: AttributeKey, v: unknown, hours = false): WbsAttributes {
+  const value = coerceAttribute(key, v, hours)
+  if (value !== undefined) (attrs as Record<AttributeKey, unknown>)[key] = value
+  return attrs
+}
+
+export const hasAttributes = (attrs?: WbsAttributes): attrs is WbsAttributes =>
+  !!attrs && ATTRIBUTE_KEYS.some(k => attrs[k] !== undefined)
+
+/* ============================================================
+   SPREADSHEET HEADERS
+   ============================================================ */
+
+/**
+ * Whole-header patterns, matched without a unit in brackets ("Effort (days)" → "effort").
+ * The qualified names come first, so "Estimated Cost" is a cost rather than an estimate.
+ */
+const HEADER_ALIASES: Array<[AttributeKey, RegExp]> = [
+  ['percentComplete', /^(% ?complete|%|percent( complete)?|progress|complete)$/],
+  ['cost', /^(estimated |planned |total )?(cost|budget|amount)$/],
+  ['start', /^(estimated |planned |actual )?(start|begin)( date)?$/],
+  ['finish', /^(estimated |planned |actual )?(finish|end|due)( date)?$/],
+  ['effort', /^(estimated |planned )?(effort|estimate|work|hours?)$/],
+  ['duration', /^(estimated |planned )?(duration|days)$/],
+  ['owner', /^(task )?(owner|assignee|assigned to|resource( names?)?|responsible|lead|team lead)$/],
+  ['status', /^(task )?(status|state)$/],
+  ['notes', /^(notes?|description|comments?|remarks?)$/]
+]
+
+/** Column header → attribute it feeds (null for unrelated columns); `hours` when values are in hours */
+export function attributeForHeader(header: string): { key: AttributeKey; hours: boolean } | null {
+  const h = header.trim().toLowerCase()
+  const bare = h.replace(/\(.*?\)/g, '').replace(/[_\s]+/g, ' ').trim()
+  if (!bare) return null
+  for (const [key, re] of HEADER_ALIASES) {
+    if (re.test(bare)) return { key, hours: /\bh(ou)?rs?\b|\(h\)/.test(h) }
+  }
+  return null
+}
+
+/* ============================================================
+   OUTLINE TEXT: "Task name {owner: Team B; effort: 5d; status: late}"
+   ============================================================ */
+
+const escapeValue = (v: string) => v.replace(/[\\;{}]/g, m => `\\${m}`)
+
+function formatValue(key: AttributeKey, v: NonNullable<WbsAttributes[AttributeKey]>): string {
+  if (key === 'effort' || key === 'duration') return `${v}d`
+  if (key === 'percentComplete') return `${v}%`
+  return escapeValue(String(v))
+}
+
+/** " {owner: …; effort: 5d}" or '' when there is nothing to write */
+export function formatAttributeSuffix(attrs?: WbsAttributes): string {
+  if (!hasAttributes(attrs)) return ''
+  const parts: string[] = []
+  for (const key of ATTRIBUTE_KEYS) {
+    const v = attrs[key]
+    if (v !== undefined) parts.push(`${TEXT_KEY[key]}: ${formatValue(key, v)}`)
+  }
+  return ` {${parts.join('; ')}}`
+}
+
+const KEY_BY_TEXT = new Map<string, AttributeKey>([
+  ...ATTRIBUTE_KEYS.map(k => [k.toLowerCase(), k] as [string, AttributeKey]),
+  ...ATTRIBUTE_KEYS.map(k => [TEXT_KEY[k], k] as [string, AttributeKey]),
+  ['%', 'percentComplete'], ['progress', 'percentComplete'], ['percent', 'percentComplete'],
+  ['end', 'finish'], ['due', 'finish'], ['assignee', 'owner'], ['note', 'notes']
+])
+
+/** Split a trailing "{…}" attribute block off a line; lines without one come back unchanged */
+export function splitAttributes(line: string): { label: string; attrs?: WbsAttributes } {
+  const m = line.match(/^(.*?)\s*\{((?:[^\\{}]|\\.)*)\}\s*$/)
+  if (!m || !m[1].trim()) return { label: line }
+  const attrs: WbsAttributes = {}
+  let known = 0
+  for (const part of m[2].split(/(?<!\\);/)) {
+    const idx = part.indexOf(':')
+    if (idx < 0) continue
+    const key = KEY_BY_TEXT.get(part.slice(0, idx).trim().toLowerCase())
+    if (!key) continue
+    known++
+    setAttribute(attrs, key, part.slice(idx + 1).replace(/\\(.)/g, '$1'))
+  }
+  // braces that hold no recognizable attribute are part of the label
+  if (!known) return { label: line }
+  return { label: m[1].trim(), attrs: hasAttributes(attrs) ? attrs : undefined }
+}
@@ -0,0 +1,52 @@
+// src/lib/backgroundLayout.ts
+// Layouts in Web Workers, so laying out thousands of boxes doesn't freeze the page.
+// Where workers are unavailable the same code runs on the main thread.
+import ELK, { type ELK as ElkApi } from 'elkjs/lib/elk-api.js'
+import elkWorkerUrl from 'elkjs/lib/elk-worker.min.js?url'
+import { dagreLayout, type DagreOptions, type LayoutGraph, type Positions } from './layoutEngine'
+import type { DagreReply, DagreRequest } from './layoutWorker'
+
+const hasWorkers = typeof Worker !== 'undefined'
+
+let elk: Promise<ElkApi> | null = null
+/** elkjs talking to its worker; the bundled copy (loaded on demand) without one */
+export function getElk(): Promise<ElkApi> {
+  elk ??= hasWorkers
+    ? Promise.resolve(new ELK({ workerUrl: elkWorkerUrl }))
+    : import('elkjs/lib/elk.bundled.js').then(m => new m.default())
+  return elk
+}
+
+let dagreWorker: Worker | null = null
+let nextId = 0
+const pending = new Map<number, { resolve: (p: Positions) => void; reject: (e: Error) => void }>()
+
+function startDagreWorker(): Worker {
+  const worker = new Worker(new URL('./layoutWorker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (e: MessageEvent<DagreReply>) => {
+    const job = pending.get(e.data.id); if (!job) return
+    pending.delete(e.data.id)
+    if (e.data.positions) job.resolve(e.data.positions)
+    else job.reject(new Error(e.data.error ?? 'Layout failed'))
+  }
+  worker.onerror = (e) => {
+    // a broken worker fails what it was given; the next layout starts a new one
+    for (const job of pending.values()) job.reject(new Error(e.message || 'Layout worker failed'))
+    pending.clear()
+    worker.terminate()
+    dagreWorker = null
+  }
+  return worker
+}
+
+/** dagre in the background (on the main thread where there are no workers) */
+export function dagreInBackground(graph: LayoutGraph, options: DagreOptions): Promise<Positions> {
+  if (!hasWorkers) return Promise.resolve().then(() => dagreLayout(graph, options))
+  dagreWorker ??= startDagreWorker()
+  const id = ++nextId
+  const request: DagreRequest = { id, graph, options }
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    dagreWorker!.postMessage(request)
+  })
+}
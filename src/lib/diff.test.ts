@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { diffTrees, formatDiffReport } from './diff'
+import { parseOutline, type WbsNode } from './parseOutline'
+import { reconcileIds, toOutline } from './wbs'
+
+const base = parseOutline('Project\n  Design\n    Spec\n  Build\n    Code\n  Test')
+/** the next revision as the editor would hold it: ids carried over from `base` */
+const revise = (text: string) => reconcileIds(base, parseOutline(text))
+const kinds = (root: WbsNode, before = base) => diffTrees(before, root).entries.map(e => [e.kind, e.label, e.from, e.to])
+
+describe('diffTrees', () => {
+  it('finds added, renamed and moved tasks', () => {
+    expect(kinds(revise('Project\n  Design\n    Specification\n  Build\n  Test\n    Code\n  Launch'))).toEqual([
+      ['renamed', 'Specification', 'Spec', undefined],
+      ['moved', 'Code', 'Build', 'Test'],
+      ['added', 'Launch', undefined, 'Project']
+    ])
+  })
+
+  it('puts removed branches back where they were in the merged tree', () => {
+    const diff = diffTrees(base, revise('Project\n  Design\n    Spec\n  Test'))
+    expect(diff.entries.map(e => [e.kind, e.label, e.code, e.from])).toEqual([
+      ['removed', 'Build', '1.2', 'Project'],
+      ['removed', 'Code', '1.2.1', 'Build']
+    ])
+    expect(toOutline(diff.merged)).toBe(toOutline(base))
+    expect(diff.merged.children[1].children[0].level).toBe(3)
+  })
+
+  it('aligns trees that share no ids by structure and labels', () => {
+    // ids derive from label paths, so renaming the top task changes every id below it
+    expect(kinds(parseOutline('Plan\n  Design\n    Spec\n  Build\n    Code\n  QA'))).toEqual([
+      ['renamed', 'Plan', 'Project', undefined],
+      ['renamed', 'QA', 'Test', undefined]
+    ])
+  })
+
+  it('leaves the trees it is given untouched when aligning them', () => {
+    const after = parseOutline('Plan\n  Design\n    Spec\n  Build\n    Code\n  QA')
+    const was = JSON.stringify(after)
+    diffTrees(base, after)
+    expect(JSON.stringify(after)).toBe(was)
+  })
+
+  it('reports no changes for the same tree', () => {
+    expect(diffTrees(base, base).entries).toEqual([])
+  })
+})
+
+describe('formatDiffReport', () => {
+  it('groups changes by kind with their codes', () => {
+    const diff = diffTrees(base, revise('Project\n  Design\n    Specification\n  Test\n  Launch'))
+    expect(formatDiffReport(diff, 'Baseline', 'Current')).toBe([
+      'Changes: Baseline → Current',
+      '1 added · 2 removed · 1 renamed · 0 moved',
+      '',
+      'Added',
+      '  + 1.3 Launch (under Project)',
+      '',
+      'Removed',
+      '  − 1.2 Build (was under Project)',
+      '  − 1.2.1 Code (was under Build)',
+      '',
+      'Renamed',
+      '  ~ 1.1.1 "Spec" → "Specification"',
+      ''
+    ].join('\n'))
+  })
+
+  it('says so when nothing changed', () => {
+    expect(formatDiffReport(diffTrees(base, base), 'A', 'B')).toContain('\nNo differences.\n')
+  })
+})
@@ -0,0 +1,133 @@
+// src/lib/diff.ts
+// Compare two versions of a WBS: what was added, removed, renamed or moved.
+import { computeCodes, DEFAULT_NUMBERING, type NumberingScheme } from './numbering'
+import { ROOT_ID, type WbsNode } from './parseOutline'
+import { reconcileIds } from './wbs'
+
+export type DiffKind = 'added' | 'removed' | 'renamed' | 'moved'
+
+export type DiffEntry = {
+  kind: DiffKind
+  id: string
+  /** label in the version the node belongs to (the older one for removals) */
+  label: string
+  /** WBS code in that version */
+  code: string
+  /** renamed: old label · moved: old parent · removed: parent it was under */
+  from?: string
+  /** moved: new parent · added: parent it was added under */
+  to?: string
+}
+
+export type WbsDiff = {
+  /** in outline order: changes in the newer version first, then removals */
+  entries: DiffEntry[]
+  /** newer tree with removed branches put back where they were, for showing on the canvas */
+  merged: WbsNode
+}
+
+type Indexed = { node: WbsNode; parent: WbsNode | null; index: number }
+
+function index(root: WbsNode): Map<string, Indexed> {
+  const map = new Map<string, Indexed>()
+  const walk = (n: WbsNode, parent: WbsNode | null, i: number) => {
+    map.set(n.id, { node: n, parent, index: i })
+    n.children.forEach((c, k) => walk(c, n, k))
+  }
+  walk(root, null, 0)
+  return map
+}
+
+/** Parent as seen by the user: the synthetic "Project" root counts as the top level */
+const parentOf = (e?: Indexed) => (e?.parent && e.parent.id !== ROOT_ID ? e.parent : null)
+const parentName = (p: WbsNode | null) => (p ? p.label : 'the top level')
+
+const cloneTree = (n: WbsNode): WbsNode => ({ ...n, children: n.children.map(cloneTree) })
+const relevel = (n: WbsNode, level: number) => { n.level = level; n.children.forEach(c => relevel(c, level + 1)) }
+
+/**
+ * Nodes are matched by id, which stays stable across edits within a document
+ * (see reconcileIds). Trees that share no ids at all, such as two imports of
+ * the same plan, are first aligned by structure and labels.
+ */
+export function diffTrees(before: WbsNode, after: WbsNode, scheme: NumberingScheme = DEFAULT_NUMBERING): WbsDiff {
+  const b = index(before)
+  const shared = [...index(after).keys()].some(id => id !== ROOT_ID && b.has(id))
+  const aligned = shared ? after : reconcileIds(before, cloneTree(after)) // on a copy: `after` may be the open document
+  const a = index(aligned)
+  const codesBefore = computeCodes(before, scheme)
+  const codesAfter = computeCodes(aligned, scheme)
+
+  const entries: DiffEntry[] = []
+  for (const [id, now] of a) {
+    if (id === ROOT_ID) continue
+    const was = b.get(id)
+    const base = { id, label: now.node.label, code: codesAfter.get(id) ?? '' }
+    if (!was) { entries.push({ ...base, kind: 'added', to: parentName(parentOf(now)) }); continue }
+    if (was.node.label !== now.node.label) entries.push({ ...base, kind: 'renamed', from: was.node.label })
+    const oldParent = parentOf(was), newParent = parentOf(now)
+    if ((oldParent?.id ?? null) !== (newParent?.id ?? null)) {
+      entries.push({ ...base, kind: 'moved', from: parentName(oldParent), to: parentName(newParent) })
+    }
+  }
+
+  // removed branches go back under their old parent (or its nearest surviving ancestor)
+  let merged = cloneTree(aligned)
+  const m = index(merged)
+  for (const [id, was] of b) {
+    if (id === ROOT_ID || a.has(id)) continue
+    entries.push({ kind: 'removed', id, label: was.node.label, code: codesBefore.get(id) ?? '', from: parentName(parentOf(was)) })
+    if (was.parent && !a.has(was.parent.id) && was.parent.id !== ROOT_ID) continue // shown with its removed parent
+
+    let anchor = parentOf(was)
+    while (anchor && !m.has(anchor.id)) anchor = parentOf(b.get(anchor.id))
+    if (!anchor && merged.id !== ROOT_ID) {
+      merged = { id: ROOT_ID, label: 'Project', level: 0, children: [merged] }
+      m.set(ROOT_ID, { node: merged, parent: null, index: 0 })
+    }
+    const target = anchor ? m.get(anchor.id)!.node : m.get(ROOT_ID)!.node
+    const keepRemoved = (n: WbsNode): WbsNode => ({ ...n, children: n.children.filter(c => !a.has(c.id)).map(keepRemoved) })
+    const branch = keepRemoved(was.node)
+    relevel(branch, target.level + 1)
+    target.children.splice(Math.min(was.index, target.children.length), 0, branch)
+    index(branch).forEach((e, k) => m.set(k, e))
+  }
+
+  return { entries, merged }
+}
+
+const SECTIONS: Array<[DiffKind, string, string]> = [
+  ['added', 'Added', '+'],
+  ['removed', 'Removed', '−'],
+  ['renamed', 'Renamed', '~'],
+  ['moved', 'Moved', '→']
+]
+
+export function countChanges(diff: WbsDiff): Record<DiffKind, number> {
+  const counts: Record<DiffKind, number> = { added: 0, removed: 0, renamed: 0, moved: 0 }
+  for (const e of diff.entries) counts[e.kind]++
+  return counts
+}
+
+/** Plain-text change report for scope reviews */
+export function formatDiffReport(diff: WbsDiff, fromName: string, toName: string): string {
+  const counts = countChanges(diff)
+  const lines = [
+    `Changes: ${fromName} → ${toName}`,
+    SECTIONS.map(([k]) => `${counts[k]} ${k}`).join(' · ')
+  ]
+  if (!diff.entries.length) lines.push('', 'No differences.')
+  for (const [kind, heading, mark] of SECTIONS) {
+    const list = diff.entries.filter(e => e.kind === kind)
+    if (!list.length) continue
+    lines.push('', heading)
+    for (const e of list) {
+      const name = `${e.code ? `${e.code} ` : ''}${e.label}`
+      if (kind === 'added') lines.push(`  ${mark} ${name} (under ${e.to})`)
+      else if (kind === 'removed') lines.push(`  ${mark} ${name} (was under ${e.from})`)
+      else if (kind === 'renamed') lines.push(`  ${mark} ${e.code ? `${e.code} ` : ''}"${e.from}" → "${e.label}"`)
+      else lines.push(`  ${mark} ${name}: ${e.from} → ${e.to}`)
+    }
+  }
+  return lines.join('\n') + '\n'
+}
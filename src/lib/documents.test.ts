@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  deleteDocument, deleteVersion, duplicateDocument, getDocument, lastDocumentId, listDocuments, listVersions,
+  readDocument, readVersion, renameDocument, saveVersion, setLastDocument, writeDocument
+} from './documents'
+import { parseOutline } from './parseOutline'
+import { serializeProject } from './projectFile'
+
+const project = (title: string) =>
+  serializeProject({ title, text: 'Project', tree: parseOutline('Project'), settings: {}, layouts: {}, themes: [], rules: [] })
+
+beforeEach(() => localStorage.clear())
+afterEach(() => vi.restoreAllMocks())
+
+describe('documents', () => {
+  it('lists saved documents and reopens the last one', () => {
+    expect(writeDocument('a', project('A'), 'Alpha')).toBe(true)
+    expect(writeDocument('b', project('B'), 'Beta')).toBe(true)
+    expect(readDocument('a')?.title).toBe('A')
+    expect(listDocuments().map(d => d.id).sort()).toEqual(['a', 'b'])
+    setLastDocument('a')
+    expect(lastDocumentId()).toBe('a')
+    deleteDocument('a')
+    expect(getDocument('a')).toBeNull()
+    expect(lastDocumentId()).toBe('b')
+  })
+
+  it('copies a document with its versions', () => {
+    writeDocument('a', project('A'), 'Alpha')
+    const v = saveVersion('a', 'Baseline', project('A0'))!
+    renameDocument('a', 'Renamed')
+    const copy = duplicateDocument('a')!
+    expect(copy.name).toBe('Renamed (copy)')
+    expect(readVersion(copy.id, v.id)?.title).toBe('A0')
+    expect(deleteVersion('a', v.id)).toBe(true)
+    expect(listVersions('a')).toEqual([])
+  })
+
+  it('reports refused writes instead of throwing', () => {
+    writeDocument('a', project('A'), 'Alpha')
+    saveVersion('a', 'Baseline', project('A0'))
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => { throw new DOMException('full', 'QuotaExceededError') })
+    expect(writeDocument('b', project('B'))).toBe(false)
+    expect(renameDocument('a', 'New')).toBe(false)
+    expect(deleteVersion('a', listVersions('a')[0].id)).toBe(false)
+    expect(saveVersion('a', 'Rev A', project('A1'))).toBeNull()
+    expect(duplicateDocument('a')).toBeNull()
+    expect(() => setLastDocument('a')).not.toThrow()
+  })
+
+  it('reads as empty when storage is disabled', () => {
+    vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => { throw new DOMException('denied', 'SecurityError') })
+    vi.spyOn(Storage.prototype, 'removeItem').mockImplementation(() => { throw new DOMException('denied', 'SecurityError') })
+    expect(lastDocumentId()).toBeNull()
+    expect(readDocument('a')).toBeNull()
+    expect(getDocument('a')).toBeNull()
+    expect(listVersions('a')).toEqual([])
+    expect(() => deleteDocument('a')).not.toThrow()
+  })
+})
@@ -0,0 +1,146 @@
+// src/lib/documents.ts
+// Browser workspace: several documents kept in localStorage as project files (see projectFile.ts).
+import { parseProject, type ProjectFile } from './projectFile'
+
+export type DocumentMeta = {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+}
+
+const INDEX_KEY = 'wbs:documents'
+const LAST_KEY = 'wbs:last-document'
+const docKey = (id: string) => `wbs:document:${id}`
+const versionsKey = (id: string) => `wbs:versions:${id}`
+
+// storage can be disabled (private mode, blocked cookies) or full: reads then find nothing, writes report false
+function getItem(key: string): string | null {
+  try { return localStorage.getItem(key) } catch { return null }
+}
+function setItem(key: string, value: string): boolean {
+  try { localStorage.setItem(key, value); return true } catch { return false }
+}
+function removeItem(key: string) {
+  try { localStorage.removeItem(key) } catch { /* nothing stored to remove */ }
+}
+
+function readIndex(): DocumentMeta[] {
+  try {
+    const list = JSON.parse(getItem(INDEX_KEY) ?? '[]')
+    return Array.isArray(list) ? list.filter(d => d && typeof d.id === 'string') : []
+  } catch {
+    return []
+  }
+}
+const writeIndex = (list: DocumentMeta[]) => setItem(INDEX_KEY, JSON.stringify(list))
+
+/** Id for a document that doesn't exist yet; it is added to the list on its first save */
+export const newDocumentId = () => `d_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+
+/** Most recently edited first */
+export function listDocuments(): DocumentMeta[] {
+  return readIndex().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export const getDocument = (id: string) => readIndex().find(d => d.id === id) ?? null
+
+/** Stored project, or null when the document is new, missing or unreadable */
+export function readDocument(id: string): ProjectFile | null {
+  const json = getItem(docKey(id))
+  if (!json) return null
+  try { return parseProject(json) } catch { return null }
+}
+
+/**
+ * Store a project file under `id`, adding the document to the index (as `name`) if needed.
+ * Returns false when the browser refuses (storage full or disabled).
+ */
+export function writeDocument(id: string, json: string, name = 'Untitled'): boolean {
+  if (!setItem(docKey(id), json)) return false
+  const now = new Date().toISOString()
+  const list = readIndex()
+  const meta = list.find(d => d.id === id)
+  if (meta) meta.updatedAt = now
+  else list.push({ id, name: name.trim() || 'Untitled', createdAt: now, updatedAt: now })
+  return writeIndex(list)
+}
+
+/** Returns false when the browser refuses (storage full or disabled) */
+export function renameDocument(id: string, name: string): boolean {
+  return writeIndex(readIndex().map(d => (d.id === id ? { ...d, name: name.trim() || d.name } : d)))
+}
+
+export function duplicateDocument(id: string): DocumentMeta | null {
+  const source = getDocument(id)
+  const json = getItem(docKey(id))
+  if (!source || !json) return null
+  const copy = newDocumentId()
+  if (!writeDocument(copy, json, `${source.name} (copy)`)) return null
+  const versions = getItem(versionsKey(id))
+  if (versions) setItem(versionsKey(copy), versions) // when full, the copy goes without history
+  return getDocument(copy)
+}
+
+export function deleteDocument(id: string) {
+  removeItem(docKey(id))
+  removeItem(versionsKey(id))
+  writeIndex(readIndex().filter(d => d.id !== id))
+  if (getItem(LAST_KEY) === id) removeItem(LAST_KEY)
+}
+
+/* ============================================================
+   NAMED VERSIONS (baseline, rev A …): frozen project files per document
+   ============================================================ */
+
+export type VersionMeta = { id: string; name: string; createdAt: string }
+
+/** Stands for the live document wherever a version id is expected (compare) */
+export const CURRENT_VERSION = 'current'
+type StoredVersion = VersionMeta & { json: string }
+
+function readVersions(docId: string): StoredVersion[] {
+  try {
+    const list = JSON.parse(getItem(versionsKey(docId)) ?? '[]')
+    return Array.isArray(list) ? list.filter(v => v && typeof v.id === 'string' && typeof v.json === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/** Newest first */
+export function listVersions(docId: string): VersionMeta[] {
+  return readVersions(docId)
+    .map(({ id, name, createdAt }) => ({ id, name, createdAt }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/** Returns null when the browser refuses (storage full or disabled) */
+export function saveVersion(docId: string, name: string, json: string): VersionMeta | null {
+  const meta: VersionMeta = { id: `v_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`, name: name.trim() || 'Untitled version', createdAt: new Date().toISOString() }
+  return setItem(versionsKey(docId), JSON.stringify([...readVersions(docId), { ...meta, json }])) ? meta : null
+}
+
+export function readVersion(docId: string, versionId: string): ProjectFile | null {
+  const v = readVersions(docId).find(x => x.id === versionId)
+  if (!v) return null
+  try { return parseProject(v.json) } catch { return null }
+}
+
+/** Returns false when the browser refuses (storage full or disabled) */
+export function deleteVersion(docId: string, versionId: string): boolean {
+  return setItem(versionsKey(docId), JSON.stringify(readVersions(docId).filter(v => v.id !== versionId)))
+}
+
+/* ============================================================
+   SESSION RECOVERY
+   ============================================================ */
+
+export const setLastDocument = (id: string) => { setItem(LAST_KEY, id) }
+
+/** Document to reopen on load: the last one open if it still exists, else the most recent one */
+export function lastDocumentId(): string | null {
+  const last = getItem(LAST_KEY)
+  if (last && getDocument(last)) return last
+  return listDocuments()[0]?.id ?? null
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { EXPORT_HEADERS, exportCSV, treeToRows } from './exporters'
+import { computeCodes } from './numbering'
+import { parseOutline } from './parseOutline'
+
+describe('treeToRows', () => {
+  it('writes one row per task with code, level, parent and attributes', () => {
+    const root = parseOutline('Project\n  Design {owner: Ann; effort: 2d}\n  Build\n    Code {cost: 1200; complete: 1%}')
+    const rows = treeToRows(root, computeCodes(root))
+    expect(rows.map(r => [r.WBS, r.Name, r.Level, r['Parent WBS']])).toEqual([
+      ['1', 'Project', 1, ''], ['1.1', 'Design', 2, '1'], ['1.2', 'Build', 2, '1'], ['1.2.1', 'Code', 3, '1.2']
+    ])
+    expect(rows[1]).toMatchObject({ Owner: 'Ann', 'Effort (days)': 2, Cost: '' })
+    expect(rows[3]).toMatchObject({ Cost: 1200, '% Complete': 1 })
+  })
+
+  it('leaves the synthetic root out', () => {
+    const root = parseOutline('Design\nBuild')
+    expect(treeToRows(root, computeCodes(root)).map(r => [r.WBS, r.Level])).toEqual([['1', 1], ['2', 1]])
+  })
+})
+
+describe('exportCSV', () => {
+  it('writes every column, quoting where needed', () => {
+    const root = parseOutline('Project\n  Build, test {notes: say "hi"}')
+    const [header, , row] = exportCSV(root, computeCodes(root)).split('\r\n')
+    expect(header).toBe(EXPORT_HEADERS.join(','))
+    expect(row).toBe('1.1,"Build, test",2,1,,,,,,,,,"say ""hi"""')
+  })
+})
@@ -0,0 +1,64 @@
+// src/lib/exporters.ts
+import Papa from 'papaparse'
+import * as XLSX from 'xlsx'
+import { ATTRIBUTE_KEYS, type AttributeKey } from './attributes'
+import { ROOT_ID, type WbsNode } from './parseOutline'
+
+/** Column headers, in order; the importer maps them back (see attributeForHeader) */
+export const EXPORT_COLUMNS = {
+  code: 'WBS',
+  name: 'Name',
+  level: 'Level',
+  parent: 'Parent WBS'
+} as const
+
+const ATTRIBUTE_COLUMNS: Record<AttributeKey, string> = {
+  owner: 'Owner',
+  effort: 'Effort (days)',
+  duration: 'Duration (days)',
+  start: 'Start',
+  finish: 'Finish',
+  status: 'Status',
+  cost: 'Cost',
+  percentComplete: '% Complete',
+  notes: 'Notes'
+}
+
+export const EXPORT_HEADERS = [...Object.values(EXPORT_COLUMNS), ...ATTRIBUTE_KEYS.map(k => ATTRIBUTE_COLUMNS[k])]
+
+export type ExportRow = Record<string, string | number>
+
+/**
+ * One row per task in outline order: code, name, level (top = 1), parent code and
+ * every attribute column. The synthetic "Project" root is left out.
+ */
+export function treeToRows(root: WbsNode, codes: Map<string, string>): ExportRow[] {
+  const rows: ExportRow[] = []
+  const visit = (n: WbsNode, depth: number, parent: WbsNode | null) => {
+    const row: ExportRow = {
+      [EXPORT_COLUMNS.code]: codes.get(n.id) ?? '',
+      [EXPORT_COLUMNS.name]: n.label,
+      [EXPORT_COLUMNS.level]: depth,
+      [EXPORT_COLUMNS.parent]: parent ? codes.get(parent.id) ?? '' : ''
+    }
+    for (const k of ATTRIBUTE_KEYS) row[ATTRIBUTE_COLUMNS[k]] = n.attrs?.[k] ?? ''
+    rows.push(row)
+    n.children.forEach(c => visit(c, depth + 1, n))
+  }
+  if (root.id === ROOT_ID) root.children.forEach(c => visit(c, 1, null))
+  else visit(root, 1, null)
+  return rows
+}
+
+export function exportCSV(root: WbsNode, codes: Map<string, string>): string {
+  return Papa.unparse(treeToRows(root, codes), { columns: EXPORT_HEADERS })
+}
+
+/** .xlsx workbook with a single "WBS" sheet */
+export function exportXLSX(root: WbsNode, codes: Map<string, string>): ArrayBuffer {
+  const ws = XLSX.utils.json_to_sheet(treeToRows(root, codes), { header: EXPORT_HEADERS })
+  ws['!cols'] = EXPORT_HEADERS.map(h => ({ wch: h === EXPORT_COLUMNS.name || h === 'Notes' ? 40 : Math.max(10, h.length + 2) }))
+  const wb = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(wb, ws, 'WBS')
+  return XLSX.write(wb, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { describeRule, legendItems, matchesRule, ruleClasses, type FormatRule } from './formatRules'
+import { parseOutline } from './parseOutline'
+
+const rule = (over: Partial<FormatRule>): FormatRule => ({ id: 'r1', field: 'status', op: 'is', value: '', label: '', ...over })
+const [late, costly, bare] = parseOutline('Design {status: overdue; owner: Team B; cost: 1200; start: 2026-03-01}\nBuild {cost: 900}\nTest').children
+
+describe('matchesRule', () => {
+  it('compares statuses in their normal form', () => {
+    expect(matchesRule(rule({ value: 'late' }), late)).toBe(true)
+    expect(matchesRule(rule({ value: 'Overdue ' }), late)).toBe(true)
+    expect(matchesRule(rule({ value: 'done' }), late)).toBe(false)
+  })
+
+  it('compares numbers by value and dates in order', () => {
+    expect(matchesRule(rule({ field: 'cost', op: 'above', value: '1000' }), late)).toBe(true)
+    expect(matchesRule(rule({ field: 'cost', op: 'above', value: '1000' }), costly)).toBe(false)
+    expect(matchesRule(rule({ field: 'cost', op: 'below', value: '1000' }), costly)).toBe(true)
+    expect(matchesRule(rule({ field: 'start', op: 'below', value: '2026-04-01' }), late)).toBe(true)
+  })
+
+  it('treats a missing value as not matching, except for "is not" and "is empty"', () => {
+    expect(matchesRule(rule({ field: 'owner', op: 'contains', value: 'team' }), late)).toBe(true)
+    expect(matchesRule(rule({ field: 'owner', op: 'contains', value: 'team' }), bare)).toBe(false)
+    expect(matchesRule(rule({ field: 'owner', op: 'is-not', value: 'Team B' }), bare)).toBe(true)
+    expect(matchesRule(rule({ field: 'owner', op: 'empty' }), bare)).toBe(true)
+    expect(matchesRule(rule({ field: 'owner', op: 'not-empty' }), bare)).toBe(false)
+  })
+
+  it('matches the task name', () => {
+    expect(ruleClasses([rule({ id: 'a', field: 'label', op: 'contains', value: 'des' }), rule({ id: 'b', value: 'late' })], late)).toEqual(['fmt-a', 'fmt-b'])
+  })
+})
+
+describe('legendItems', () => {
+  it('lists rules that change something, by label or else by condition', () => {
+    const rules = [
+      rule({ id: 'a', value: 'late', border: '#dc2626', label: 'Late' }),
+      rule({ id: 'b', field: 'cost', op: 'above', value: '1000', fill: '#fef3c7' }),
+      rule({ id: 'c', field: 'owner', op: 'empty' })
+    ]
+    expect(legendItems(rules)).toEqual([
+      { label: 'Late', border: '#dc2626', fill: undefined, text: undefined },
+      { label: 'Cost > 1000', fill: '#fef3c7', border: undefined, text: undefined }
+    ])
+    expect(describeRule(rules[2])).toBe('Owner is empty')
+  })
+})
@@ -0,0 +1,88 @@
+// src/lib/formatRules.ts
+// Conditional formatting: "status is late → red border", "owner is Team B → blue fill".
+// Matching boxes get a class per rule (see Diagram.tsx); the legend lists the rules.
+import { parseStatus, type AttributeKey } from './attributes'
+import type { WbsNode } from './parseOutline'
+
+export type RuleField = AttributeKey | 'label'
+export type RuleOperator = 'is' | 'is-not' | 'contains' | 'above' | 'below' | 'empty' | 'not-empty'
+
+export type FormatRule = {
+  /** letters, digits and dashes only: it becomes part of a class name */
+  id: string
+  field: RuleField
+  op: RuleOperator
+  value: string
+  fill?: string
+  border?: string
+  text?: string
+  /** legend text; the condition itself when empty */
+  label: string
+}
+
+export const RULE_FIELDS: Array<[RuleField, string]> = [
+  ['status', 'Status'], ['owner', 'Owner'], ['percentComplete', '% complete'], ['effort', 'Effort'], ['duration', 'Duration'],
+  ['cost', 'Cost'], ['start', 'Start'], ['finish', 'Finish'], ['notes', 'Notes'], ['label', 'Task name']
+]
+
+export const RULE_OPERATORS: Array<[RuleOperator, string]> = [
+  ['is', 'is'], ['is-not', 'is not'], ['contains', 'contains'], ['above', '>'], ['below', '<'], ['empty', 'is empty'], ['not-empty', 'is set']
+]
+
+/** Boxes matching rule `r1` carry the class `fmt-r1` */
+export const RULE_CLASS_PREFIX = 'fmt-'
+export const ruleClass = (rule: FormatRule) => `${RULE_CLASS_PREFIX}${rule.id}`
+
+export const newRuleId = () => `r${Date.now().toString(36)}${Math.random().toString(36).slice(2, 5)}`
+
+const fieldValue = (node: WbsNode, field: RuleField): string | number | undefined =>
+  field === 'label' ? node.label : node.attrs?.[field]
+
+/** Status values are compared in their normal form, so "overdue" matches a rule for "late" */
+const normal = (field: RuleField, v: string) => (field === 'status' ? parseStatus(v) ?? v.trim().toLowerCase() : v.trim().toLowerCase())
+
+export function matchesRule(rule: FormatRule, node: WbsNode): boolean {
+  const actual = fieldValue(node, rule.field)
+  const isSet = actual !== undefined && String(actual).trim() !== ''
+  if (rule.op === 'empty') return !isSet
+  if (rule.op === 'not-empty') return isSet
+  if (!isSet) return rule.op === 'is-not'
+  const a = normal(rule.field, String(actual)), b = normal(rule.field, rule.value)
+  switch (rule.op) {
+    case 'is': return a === b
+    case 'is-not': return a !== b
+    case 'contains': return a.includes(b)
+    case 'above':
+    case 'below': {
+      // numbers by value; dates (ISO) and text in order
+      const x = Number(actual), y = Number(rule.value)
+      const cmp = typeof actual === 'number' && Number.isFinite(y) ? x - y : a.localeCompare(b)
+      return rule.op === 'above' ? cmp > 0 : cmp < 0
+    }
+  }
+}
+
+export const ruleClasses = (rules: FormatRule[], node: WbsNode) => rules.filter(r => matchesRule(r, node)).map(ruleClass)
+
+/** "Status is late" */
+export function describeRule(rule: FormatRule): string {
+  const field = RULE_FIELDS.find(([f]) => f === rule.field)?.[1] ?? rule.field
+  const op = RULE_OPERATORS.find(([o]) => o === rule.op)?.[1] ?? rule.op
+  return rule.op === 'empty' || rule.op === 'not-empty' ? `${field} ${op}` : `${field} ${op} ${rule.value}`
+}
+
+export type LegendItem = { label: string; fill?: string; border?: string; text?: string }
+
+/** One entry per rule that changes anything */
+export const legendItems = (rules: FormatRule[]): LegendItem[] =>
+  rules
+    .filter(r => r.fill || r.border || r.text)
+    .map(r => ({ label: r.label.trim() || describeRule(r), fill: r.fill, border: r.border, text: r.text }))
+
+/** A starting set for status boards */
+export const statusRules = (): FormatRule[] => [
+  { id: newRuleId() + 'l', field: 'status', op: 'is', value: 'late', border: '#dc2626', fill: '#fee2e2', label: 'Late' },
+  { id: newRuleId() + 'h', field: 'status', op: 'is', value: 'on-hold', border: '#d97706', label: 'On hold' },
+  { id: newRuleId() + 'd', field: 'status', op: 'is', value: 'done', fill: '#bbf7d0', label: 'Done' },
+  { id: newRuleId() + 'c', field: 'status', op: 'is', value: 'cancelled', fill: '#e5e7eb', text: '#6b7280', label: 'Cancelled' }
+]
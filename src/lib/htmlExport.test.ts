@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { viewerHtml, type ViewerData } from './htmlExport'
+import { FONT_CHOICES } from './themes'
+
+const data = (over: Partial<ViewerData> = {}): ViewerData => ({
+  title: 'Plan',
+  boxes: [{
+    id: 'a', x: 0, y: 0, w: 200, h: 60, label: 'Design', fill: '#dbeafe', border: '#2563eb', borderWidth: 1,
+    color: '#0f172a', fontSize: 12, shape: 'round-rectangle', collapsed: false, details: [['Owner', 'Ann']]
+  }],
+  edges: [],
+  canvas: '#f8fafc',
+  fontFamily: FONT_CHOICES.Inter,
+  textColor: '#0f172a',
+  edgeColor: '#94a3b8',
+  edgeWidth: 2,
+  accent: '#2563eb',
+  chevrons: { collapsed: 'data:image/svg+xml,plus', expanded: 'data:image/svg+xml,minus' },
+  ...over
+})
+const style = (html: string) => html.slice(html.indexOf('<style>'), html.indexOf('</style>'))
+const dataBlock = (html: string) => /<script type="application\/json" id="wbs-data">([^]*?)<\/script>/.exec(html)![1]
+
+describe('viewerHtml', () => {
+  it('writes the theme into the stylesheet and the diagram into a JSON block', () => {
+    const html = viewerHtml(data())
+    expect(style(html)).toContain(`font-family: ${FONT_CHOICES.Inter}; color: #0f172a; background: #f8fafc; }`)
+    expect(style(html)).toContain('stroke: #2563eb;')
+    expect(JSON.parse(dataBlock(html))).toEqual(data())
+  })
+
+  it('keeps markup in theme values out of the stylesheet', () => {
+    const html = viewerHtml(data({
+      fontFamily: 'x}</style><script>alert(1)</script>',
+      textColor: 'red;}body{display:none',
+      canvas: 'url(https://example.com/x.png)',
+      accent: '#2563eb</style><img src=x onerror=alert(1)>'
+    }))
+    expect(style(html)).not.toContain('alert(1)')
+    expect(style(html)).not.toContain('example.com')
+    expect(html.match(/<\/style>/g)).toHaveLength(1)
+    expect(html.match(/<script/g)).toHaveLength(2)
+    expect(style(html)).toContain('font-family: sans-serif; color: #0f172a; background: #ffffff; }')
+  })
+
+  it('escapes the title and keeps "</script>" in labels inside the data block', () => {
+    const box = { ...data().boxes[0], label: '</script><script>alert(1)</script>' }
+    const html = viewerHtml(data({ title: 'R&D <plan>', boxes: [box] }))
+    expect(html).toContain('<title>R&amp;D &lt;plan&gt;</title>')
+    expect(html.match(/<\/script>/g)).toHaveLength(2)
+    expect(JSON.parse(dataBlock(html)).boxes[0].label).toBe(box.label)
+  })
+})
@@ -0,0 +1,236 @@
+// src/lib/htmlExport.ts
+// Standalone interactive HTML export: the diagram as it is laid out, plus a small viewer with pan and zoom,
+// collapse and expand, search and tooltips. One file, no external requests, so it opens offline from a share.
+import { cssColor, cssFont } from './themes'
+
+/** A box as drawn on the canvas; `parent` links it to the box above it */
+export type ViewerBox = {
+  id: string
+  parent?: string
+  /** centre and size in diagram units */
+  x: number
+  y: number
+  w: number
+  h: number
+  label: string
+  fill: string
+  border: string
+  borderWidth: number
+  color: string
+  fontSize: number
+  shape: string
+  collapsed: boolean
+  /** rows of the tooltip, e.g. ["Owner", "Ann"] */
+  details: Array<[string, string]>
+}
+
+export type ViewerEdge = { source: string; target: string; d: string }
+
+export type ViewerData = {
+  title: string
+  boxes: ViewerBox[]
+  edges: ViewerEdge[]
+  canvas: string
+  fontFamily: string
+  textColor: string
+  edgeColor: string
+  edgeWidth: number
+  accent: string
+  /** data URIs of the canvas's plus and minus chevrons */
+  chevrons: { collapsed: string; expanded: string }
+}
+
+const esc = (s: string) => s.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!)
+
+/** Plain ES5 so it runs from a file share in any browser; it reads the JSON block written next to it */
+const VIEWER_SCRIPT = `(function () {
+  var data = JSON.parse(document.getElementById('wbs-data').textContent);
+  var NS = 'http://www.w3.org/2000/svg', CHEVRON = 18, PAD = 4;
+  var svg = document.getElementById('view'), world = document.getElementById('world');
+  var tip = document.getElementById('tip'), search = document.getElementById('search'), count = document.getElementById('count');
+  var byId = {}, kids = {}, view = { x: 0, y: 0, k: 1 }, matches = [], current = -1;
+
+  function el(tag, attrs, parent) {
+    var e = document.createElementNS(NS, tag);
+    for (var k in attrs) e.setAttribute(k, attrs[k]);
+    if (parent) parent.appendChild(e);
+    return e;
+  }
+  data.boxes.forEach(function (b) { byId[b.id] = b; if (b.parent) (kids[b.parent] = kids[b.parent] || []).push(b.id); });
+  function hidden(b) {
+    for (var p = byId[b.parent]; p; p = byId[p.parent]) if (p.collapsed) return true;
+    return false;
+  }
+
+  data.edges.forEach(function (e) {
+    e.path = el('path', { d: e.d, fill: 'none', stroke: data.edgeColor, 'stroke-width': data.edgeWidth }, world);
+  });
+  data.boxes.forEach(function (b) {
+    var g = el('g', { 'class': 'box', transform: 'translate(' + (b.x - b.w / 2) + ' ' + (b.y - b.h / 2) + ')' }, world);
+    var paint = { fill: b.fill, stroke: b.border, 'stroke-width': b.borderWidth, 'class': 'frame' };
+    if (b.shape === 'ellipse') { paint.cx = b.w / 2; paint.cy = b.h / 2; paint.rx = b.w / 2; paint.ry = b.h / 2; el('ellipse', paint, g); }
+    else { paint.width = b.w; paint.height = b.h; paint.rx = b.shape === 'round-rectangle' ? 8 : 0; el('rect', paint, g); }
+    var fo = el('foreignObject', { x: 0, y: 0, width: b.w, height: b.h }, g);
+    var label = document.createElement('div');
+    label.className = 'label';
+    label.style.color = b.color;
+    label.style.fontSize = b.fontSize + 'px';
+    label.textContent = b.label;
+    fo.appendChild(label);
+    if (kids[b.id]) {
+      b.chevron = el('image', { x: b.w - PAD - CHEVRON, y: PAD, width: CHEVRON, height: CHEVRON, 'class': 'chevron' }, g);
+      b.chevron.addEventListener('click', function (ev) { ev.stopPropagation(); b.collapsed = !b.collapsed; refresh(); });
+    }
+    g.addEventListener('mousemove', function (ev) { showTip(b, ev); });
+    g.addEventListener('mouseleave', function () { tip.style.display = 'none'; });
+    b.g = g;
+  });
+
+  function refresh() {
+    data.boxes.forEach(function (b) {
+      b.g.style.display = hidden(b) ? 'none' : '';
+      if (b.chevron) b.chevron.setAttribute('href', b.collapsed ? data.chevrons.collapsed : data.chevrons.expanded);
+    });
+    data.edges.forEach(function (e) { var t = byId[e.target]; e.path.style.display = !t || hidden(t) ? 'none' : ''; });
+  }
+
+  function showTip(b, ev) {
+    tip.textContent = '';
+    var head = document.createElement('strong');
+    head.textContent = b.label;
+    tip.appendChild(head);
+    b.details.forEach(function (row) {
+      var line = document.createElement('div');
+      line.textContent = row[0] + ': ' + row[1];
+      tip.appendChild(line);
+    });
+    tip.style.display = 'block';
+    tip.style.left = Math.min(ev.clientX + 14, window.innerWidth - tip.offsetWidth - 8) + 'px';
+    tip.style.top = Math.min(ev.clientY + 14, window.innerHeight - tip.offsetHeight - 8) + 'px';
+  }
+
+  // pan and zoom
+  function apply() { world.setAttribute('transform', 'translate(' + view.x + ' ' + view.y + ') scale(' + view.k + ')'); }
+  function fit() {
+    var x1 = Infinity, y1 = Infinity, x2 = -Infinity, y2 = -Infinity;
+    data.boxes.forEach(function (b) {
+      if (hidden(b)) return;
+      x1 = Math.min(x1, b.x - b.w / 2); y1 = Math.min(y1, b.y - b.h / 2); x2 = Math.max(x2, b.x + b.w / 2); y2 = Math.max(y2, b.y + b.h / 2);
+    });
+    if (x1 === Infinity) return;
+    var r = svg.getBoundingClientRect(), pad = 30;
+    view.k = Math.min((r.width - 2 * pad) / (x2 - x1), (r.height - 2 * pad) / (y2 - y1), 2);
+    view.x = (r.width - (x2 - x1) * view.k) / 2 - x1 * view.k;
+    view.y = (r.height - (y2 - y1) * view.k) / 2 - y1 * view.k;
+    apply();
+  }
+  function zoomAt(mx, my, k) {
+    k = Math.max(0.05, Math.min(4, k));
+    view.x = mx - (mx - view.x) * k / view.k;
+    view.y = my - (my - view.y) * k / view.k;
+    view.k = k;
+    apply();
+  }
+  svg.addEventListener('wheel', function (ev) {
+    ev.preventDefault();
+    var r = svg.getBoundingClientRect();
+    zoomAt(ev.clientX - r.left, ev.clientY - r.top, view.k * Math.exp(-ev.deltaY * 0.0015));
+  }, { passive: false });
+  var drag = null;
+  svg.addEventListener('pointerdown', function (ev) {
+    if (ev.target.getAttribute('class') === 'chevron') return;
+    drag = { x: ev.clientX - view.x, y: ev.clientY - view.y };
+    svg.setPointerCapture(ev.pointerId);
+  });
+  svg.addEventListener('pointermove', function (ev) {
+    if (!drag) return;
+    view.x = ev.clientX - drag.x; view.y = ev.clientY - drag.y; apply();
+  });
+  svg.addEventListener('pointerup', function () { drag = null; });
+
+  // search: matches stay bright, Enter steps through them
+  function centreOn(b) {
+    var r = svg.getBoundingClientRect();
+    view.x = r.width / 2 - b.x * view.k; view.y = r.height / 2 - b.y * view.k; apply();
+  }
+  search.addEventListener('input', function () {
+    var q = search.value.trim().toLowerCase();
+    matches = q ? data.boxes.filter(function (b) { return b.label.toLowerCase().indexOf(q) >= 0; }) : [];
+    current = -1;
+    data.boxes.forEach(function (b) {
+      var hit = matches.indexOf(b) >= 0;
+      b.g.setAttribute('class', 'box' + (q ? (hit ? ' match' : ' dim') : ''));
+    });
+    count.textContent = q ? matches.length + ' found' : '';
+  });
+  search.addEventListener('keydown', function (ev) {
+    if (ev.key !== 'Enter' || !matches.length) return;
+    current = (current + (ev.shiftKey ? matches.length - 1 : 1)) % matches.length;
+    var b = matches[current];
+    for (var p = byId[b.parent]; p; p = byId[p.parent]) p.collapsed = false;
+    refresh();
+    centreOn(b);
+    count.textContent = (current + 1) + ' of ' + matches.length;
+  });
+
+  document.getElementById('fit').addEventListener('click', fit);
+  document.getElementById('expand').addEventListener('click', function () { data.boxes.forEach(function (b) { b.collapsed = false; }); refresh(); fit(); });
+  document.getElementById('zoom-in').addEventListener('click', function () { var r = svg.getBoundingClientRect(); zoomAt(r.width / 2, r.height / 2, view.k * 1.25); });
+  document.getElementById('zoom-out').addEventListener('click', function () { var r = svg.getBoundingClientRect(); zoomAt(r.width / 2, r.height / 2, view.k / 1.25); });
+  window.addEventListener('resize', fit);
+  refresh();
+  fit();
+})();`
+
+/** The whole viewer as one HTML document */
+export function viewerHtml(data: ViewerData): string {
+  // "</script>" inside a label must not end the data block
+  const json = JSON.stringify(data).replace(/</g, '\\u003c')
+  const title = data.title.trim() || 'WBS'
+  // theme values can come from a custom theme in an opened file; only plain colours and font names reach the stylesheet
+  const font = cssFont(data.fontFamily), text = cssColor(data.textColor, '#0f172a')
+  const canvas = cssColor(data.canvas, '#ffffff'), accent = cssColor(data.accent, '#2563eb')
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(title)}</title>
+<style>
+  html, body { margin: 0; height: 100%; overflow: hidden; font-family: ${font}; color: ${text}; background: ${canvas}; }
+  header { position: fixed; top: 0; left: 0; right: 0; height: 44px; display: flex; align-items: center; gap: 8px; padding: 0 12px;
+    background: rgba(255,255,255,0.92); border-bottom: 1px solid #e5e7eb; color: #0f172a; font-size: 13px; z-index: 2; }
+  header h1 { font-size: 15px; margin: 0 12px 0 0; font-weight: 600; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  header input { padding: 5px 8px; border: 1px solid #d1d5db; border-radius: 8px; font: inherit; width: 200px; }
+  header button { padding: 5px 10px; border: 1px solid #d1d5db; border-radius: 8px; background: #fff; font: inherit; cursor: pointer; }
+  #count { color: #64748b; }
+  #view { position: fixed; top: 44px; left: 0; width: 100%; height: calc(100% - 44px); cursor: grab; touch-action: none; }
+  #view:active { cursor: grabbing; }
+  .label { box-sizing: border-box; width: 100%; height: 100%; padding: 6px 24px; display: flex; align-items: center; justify-content: center;
+    text-align: center; white-space: pre-line; overflow: hidden; line-height: 1.2; font-family: ${font}; user-select: none; }
+  .chevron { cursor: pointer; }
+  .box.dim { opacity: 0.25; }
+  .box.match .frame { stroke: ${accent}; stroke-width: 4; }
+  #tip { position: fixed; display: none; max-width: 320px; padding: 8px 10px; background: #fff; color: #0f172a; border: 1px solid #e5e7eb;
+    border-radius: 8px; box-shadow: 0 8px 24px rgba(0,0,0,0.15); font-size: 12px; line-height: 1.5; pointer-events: none; z-index: 3; white-space: pre-line; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${esc(title)}</h1>
+  <input id="search" type="search" placeholder="Search (Enter for next)">
+  <span id="count"></span>
+  <span style="flex: 1"></span>
+  <button id="zoom-out" title="Zoom out">−</button>
+  <button id="zoom-in" title="Zoom in">+</button>
+  <button id="fit">Fit</button>
+  <button id="expand">Expand all</button>
+</header>
+<svg id="view" xmlns="http://www.w3.org/2000/svg"><g id="world"></g></svg>
+<div id="tip"></div>
+<script type="application/json" id="wbs-data">${json}</script>
+<script>${VIEWER_SCRIPT}</script>
+</body>
+</html>
+`
+}
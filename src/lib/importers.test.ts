@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import * as XLSX from 'xlsx'
+import { exportCSV, exportXLSX } from './exporters'
+import { importWbsFromFile } from './importers'
+import { computeCodes } from './numbering'
+import { parseOutline } from './parseOutline'
+
+const outline = 'Project\n  Design {owner: Ann; complete: 1%}\n  Build {effort: 5d; cost: 1200; complete: 40%}\n    Code {status: late; complete: 100%}'
+
+describe('spreadsheet round trip', () => {
+  const root = parseOutline(outline)
+  const codes = computeCodes(root)
+
+  it('re-imports an XLSX export without loss', async () => {
+    const file = new File([exportXLSX(root, codes)], 'wbs.xlsx')
+    const { text, codeIssues } = await importWbsFromFile(file)
+    expect(text).toBe(outline)
+    expect(codeIssues).toEqual([])
+  })
+
+  it('re-imports a CSV export without loss', async () => {
+    const file = new File([exportCSV(root, codes)], 'wbs.csv')
+    expect((await importWbsFromFile(file)).text).toBe(outline)
+  })
+
+  it('reads percent-formatted cells as the percent they show', async () => {
+    const ws = XLSX.utils.aoa_to_sheet([['WBS', 'Name', '% Complete'], ['1', 'Project', 0.4]])
+    ws.C2.z = '0%'
+    const wb = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(wb, ws, 'WBS')
+    const file = new File([XLSX.write(wb, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer], 'pmo.xlsx')
+    expect((await importWbsFromFile(file)).text).toBe('Project {complete: 40%}')
+  })
+
+  it('reports wrong codes at their row in the file', async () => {
+    const csv = 'WBS,Name\n1,Project\n\n1.1,Design\n,\n1.5,Build\n'
+    const { codeIssues } = await importWbsFromFile(new File([csv], 'pmo.csv'))
+    expect(codeIssues).toEqual([{ row: 6, label: 'Build', code: '1.5', expected: '1.2' }])
+  })
+})
@@ -1,12 +1,24 @@
 // src/lib/importers.ts
 import Papa from 'papaparse'
 import * as XLSX from 'xlsx'
+import { attributeForHeader, formatAttributeSuffix, setAttribute, type WbsAttributes } from './attributes'
+import { readMspdi } from './mspdi'
+import { readMarkdown, readOpml } from './outlineFormats'
+import { compareCodes, DEFAULT_NUMBERING, type CodeIssue, type NumberingScheme } from './numbering'
+import { parseOutline } from './parseOutline'
+
+/** Outline text plus the WBS code each line had in the file ('' when none) and the file row it came from */
+type TableOutline = { text: string; codes: string[]; rows?: number[] }
 
 /**
- * Normalizes a 2-column table (WBS, Name) into outline text.
+ * Normalizes a table (WBS, Name, optional Level, plus optional attribute columns
+ * such as Owner, Effort, Start, Finish, Status, Cost, % Complete, Notes) into outline text.
+ * `rowNumber` gives the file row of the i-th record, so skipped rows don't shift the ones after.
  */
-function rowsToOutline(rows: Array<Record<string, unknown>> | string[][]): string {
+function rowsToOutline(rows: Array<Record<string, unknown>> | string[][], rowNumber: (row: object, i: number) => number): TableOutline {
   const out: string[] = []
+  const codes: string[] = []
+  const fileRows: number[] = []
 
   const asRecords = rows as Array<Record<string, unknown>>
   const looksLikeRecords =
@@ -21,49 +33,63 @@ function rowsToOutline(rows: Array<Record<string, unknown>> | string[][]): strin
     const findKey = (name: string) => keys.find(k => k.toLowerCase().includes(name))
     const wbsKey = findKey('wbs') ?? keys[0]
     const nameKey = findKey('name') ?? keys[1] ?? keys[0]
+    // an explicit Level column (our own exports) wins over counting code segments
+    const levelKey = keys.find(k => k.trim().toLowerCase() === 'level')
+    const attrCols = keys
+      .filter(k => k !== wbsKey && k !== nameKey)
+      .map(k => ({ col: k, attr: attributeForHeader(k) }))
+      .filter(c => c.attr)
 
-    for (const r of asRecords) {
+    asRecords.forEach((r, i) => {
       const wbs = String((r as any)[wbsKey] ?? '').trim()
       const name = String((r as any)[nameKey] ?? '').trim()
-      if (!wbs && !name) continue
-      const level = wbs ? wbs.split('.').length : 1
+      if (!wbs && !name) return
+      const explicit = levelKey ? parseInt(String(r[levelKey] ?? ''), 10) : NaN
+      const level = explicit >= 1 ? explicit : wbs ? wbs.split('.').length : 1
       const indent = '  '.repeat(Math.max(0, level - 1))
-      out.push(`${indent}${name || wbs}`)
-    }
-    return out.join('\n')
+      const attrs: WbsAttributes = {}
+      for (const { col, attr } of attrCols) setAttribute(attrs, attr!.key, r[col], attr!.hours)
+      out.push(`${indent}${name || wbs}${formatAttributeSuffix(attrs)}`)
+      codes.push(wbs)
+      fileRows.push(rowNumber(r, i))
+    })
+    return { text: out.join('\n'), codes, rows: fileRows }
   }
 
   // Fallback for raw 2D arrays (no headers)
   const rows2d = rows as string[][]
-  for (const r of rows2d) {
+  rows2d.forEach((r, i) => {
     const wbs = String(r[0] ?? '').trim()
     const name = String(r[1] ?? '').trim()
-    if (!wbs && !name) continue
+    if (!wbs && !name) return
     const level = wbs ? wbs.split('.').length : 1
     const indent = '  '.repeat(Math.max(0, level - 1))
     out.push(`${indent}${name || wbs}`)
-  }
-  return out.join('\n')
+    codes.push(wbs)
+    fileRows.push(rowNumber(r, i))
+  })
+  return { text: out.join('\n'), codes, rows: fileRows }
 }
 
 /** Parse CSV/TSV text → outline */
-function parseDelimitedToOutline(text: string): Promise<string> {
+function parseDelimitedToOutline(text: string): Promise<TableOutline> {
   return new Promise((resolve, reject) => {
     Papa.parse<Record<string, unknown>>(text, {
       header: true,
-      skipEmptyLines: true,
+      // blank lines stay in as empty records, so record i is line i + 2 (after the header)
+      skipEmptyLines: false,
       complete: (res: Papa.ParseResult<Record<string, unknown>>) => {
         const data = res.data
         const hasObjects = Array.isArray(data) && data.some(x => x && typeof x === 'object' && !Array.isArray(x))
         if (hasObjects && data.length > 0) {
-          resolve(rowsToOutline(data))
+          resolve(rowsToOutline(data, (_, i) => i + 2))
         } else {
           // reparse without header
           Papa.parse<string[]>(text, {
             header: false,
-            skipEmptyLines: true,
+            skipEmptyLines: false,
             complete: (res2: Papa.ParseResult<string[]>) => {
-              resolve(rowsToOutline(res2.data as string[][]))
+              resolve(rowsToOutline(res2.data as string[][], (_, i) => i + 1))
             },
             error: (error: Error /* , file: string */) => reject(error)
           })
@@ -74,31 +100,59 @@ function parseDelimitedToOutline(text: string): Promise<string> {
   })
 }
 
+/** sheet_to_json marks every row with its 0-based sheet row (blank rows are skipped) */
+const sheetRow = (row: object, i: number) => ((row as { __rowNum__?: number }).__rowNum__ ?? i) + 1
+
 /** Read Excel (xlsx/xls) → outline (first sheet) */
-async function parseExcelToOutline(file: File): Promise<string> {
+async function parseExcelToOutline(file: File): Promise<TableOutline> {
   const buf = await file.arrayBuffer()
   const wb = XLSX.read(buf, { type: 'array' })
   const sheetName = wb.SheetNames[0]
   if (!sheetName) throw new Error('Workbook has no sheets')
   const ws = wb.Sheets[sheetName]
+  // a percent-formatted cell holds a fraction (0.4); its displayed text ("40%") is what parsePercent reads
+  for (const [ref, cell] of Object.entries(ws)) {
+    if (!ref.startsWith('!') && cell.t === 'n' && typeof cell.w === 'string' && cell.w.trim().endsWith('%')) {
+      cell.t = 's'; cell.v = cell.w
+    }
+  }
 
   // Try as objects (header row)
   const asObjects = XLSX.utils.sheet_to_json<Record<string, unknown>>(ws, { defval: '' })
   if (asObjects && asObjects.length > 0) {
-    return rowsToOutline(asObjects)
+    return rowsToOutline(asObjects, sheetRow)
   }
 
   // Fallback: raw rows (no header)
   const asRows = XLSX.utils.sheet_to_json<string[]>(ws, { header: 1, defval: '' })
-  return rowsToOutline(asRows)
+  return rowsToOutline(asRows, sheetRow)
 }
 
-/** Public API: File (Excel/CSV/TSV/TXT) → outline string */
-export async function importOutlineFromFile(file: File): Promise<string> {
+export type ImportResult = {
+  text: string
+  /** rows whose WBS code differs from the numbering computed for the imported tree */
+  codeIssues: CodeIssue[]
+  /** project title carried by the file (MS Project XML, OPML, a Markdown H1) */
+  title?: string
+}
+
+/** Public API: File (Excel/CSV/TSV/TXT/MS Project XML/Markdown/OPML) → outline string, with the file's codes checked against `scheme` */
+export async function importWbsFromFile(file: File, scheme: NumberingScheme = DEFAULT_NUMBERING): Promise<ImportResult> {
   const name = (file.name || '').toLowerCase()
-  if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
-    return parseExcelToOutline(file)
-  }
-  const text = await file.text()
-  return parseDelimitedToOutline(text)
+  const table: TableOutline & { title?: string } = name.endsWith('.xlsx') || name.endsWith('.xls')
+    ? await parseExcelToOutline(file)
+    : name.endsWith('.xml')
+      ? readMspdi(await file.text())
+      : name.endsWith('.md') || name.endsWith('.markdown')
+        ? { ...readMarkdown(await file.text()), codes: [] }
+        : name.endsWith('.opml')
+          ? { ...readOpml(await file.text()), codes: [] }
+          : await parseDelimitedToOutline(await file.text())
+  const codeIssues = table.text.trim() ? compareCodes(parseOutline(table.text), table.codes, scheme, table.rows) : []
+  return { text: table.text, codeIssues, title: table.title }
+}
+
+/** Public API: File (Excel/CSV/TSV/TXT/MS Project XML/Markdown/OPML) → outline string */
+export async function importOutlineFromFile(file: File): Promise<string> {
+  return (await importWbsFromFile(file)).text
 }
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { dagreLayout, type LayoutGraph } from './layoutEngine'
+
+const graph: LayoutGraph = {
+  boxes: [{ id: 'p', width: 100, height: 40 }, { id: 'a', width: 80, height: 40 }, { id: 'b', width: 80, height: 40 }],
+  links: [{ id: 'p-a', source: 'p', target: 'a' }, { id: 'p-b', source: 'p', target: 'b' }]
+}
+
+describe('dagreLayout', () => {
+  it('places children a rank below their parent, side by side', () => {
+    const pos = dagreLayout(graph, { rankDir: 'TB', nodeSep: 20, rankSep: 60 })
+    expect(Object.keys(pos).sort()).toEqual(['a', 'b', 'p'])
+    expect(pos.a.y).toBe(pos.b.y)
+    expect(pos.a.y - pos.p.y).toBe(20 + 60 + 20)
+    expect(Math.abs(pos.b.x - pos.a.x)).toBe(80 + 20)
+    expect(pos.p.x).toBe((pos.a.x + pos.b.x) / 2)
+  })
+
+  it('runs ranks left to right when asked', () => {
+    const pos = dagreLayout(graph, { rankDir: 'LR', nodeSep: 20, rankSep: 60 })
+    expect(pos.a.x).toBe(pos.b.x)
+    expect(pos.a.x).toBeGreaterThan(pos.p.x)
+  })
+})
@@ -0,0 +1,27 @@
+// src/lib/layoutEngine.ts
+// Layout on plain data (box sizes and parent → child links), so it can run in a Web Worker.
+import dagre from 'dagre'
+
+export type Pos = { x: number; y: number }
+export type Positions = Record<string, Pos>
+
+export type LayoutBox = { id: string; width: number; height: number }
+export type LayoutLink = { id: string; source: string; target: string }
+
+/** Boxes and links in the order layouts should keep siblings in */
+export type LayoutGraph = { boxes: LayoutBox[]; links: LayoutLink[] }
+
+export type DagreOptions = { rankDir: 'TB' | 'LR'; nodeSep: number; rankSep: number }
+
+/** Box centres from dagre */
+export function dagreLayout({ boxes, links }: LayoutGraph, { rankDir, nodeSep, rankSep }: DagreOptions): Positions {
+  const g = new dagre.graphlib.Graph({ multigraph: true, compound: true })
+  g.setGraph({ rankdir: rankDir, nodesep: nodeSep, ranksep: rankSep })
+  g.setDefaultEdgeLabel(() => ({}))
+  for (const b of boxes) g.setNode(b.id, { width: b.width, height: b.height })
+  for (const l of links) g.setEdge(l.source, l.target, { minlen: 1, weight: 1 }, l.id)
+  dagre.layout(g)
+  const positions: Positions = {}
+  for (const id of g.nodes()) { const n = g.node(id); positions[id] = { x: n.x, y: n.y } }
+  return positions
+}
@@ -0,0 +1,13 @@
+// src/lib/layoutWorker.ts
+// Web Worker entry: dagre layouts off the main thread (ELK brings its own worker, see backgroundLayout.ts).
+import { dagreLayout, type DagreOptions, type LayoutGraph, type Positions } from './layoutEngine'
+
+export type DagreRequest = { id: number; graph: LayoutGraph; options: DagreOptions }
+export type DagreReply = { id: number; positions?: Positions; error?: string }
+
+self.onmessage = (e: MessageEvent<DagreRequest>) => {
+  const { id, graph, options } = e.data
+  let reply: DagreReply
+  try { reply = { id, positions: dagreLayout(graph, options) } } catch (err) { reply = { id, error: String(err) } }
+  self.postMessage(reply)
+}
@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import projectXml from './fixtures/mspdi-project.xml?raw'
+import { readMspdi, writeMspdi } from './mspdi'
+import { computeCodes } from './numbering'
+import { parseOutline, type WbsNode } from './parseOutline'
+
+/** Task children of mspdi_pj12.xsd in sequence order (the part this app reads or writes) */
+const XSD_TASK_SEQUENCE = [
+  'UID', 'GUID', 'ID', 'Name', 'Active', 'Manual', 'Type', 'IsNull', 'CreateDate', 'Contact', 'WBS', 'WBSLevel',
+  'OutlineNumber', 'OutlineLevel', 'Priority', 'Start', 'Finish', 'Duration', 'ManualStart', 'ManualFinish',
+  'ManualDuration', 'DurationFormat', 'Work', 'Stop', 'Resume', 'ResumeValid', 'EffortDriven', 'Recurring',
+  'OverAllocated', 'Estimated', 'Milestone', 'Summary', 'DisplayAsSummary', 'Critical', 'IsSubproject',
+  'IsSubprojectReadOnly', 'SubprojectName', 'ExternalTask', 'ExternalTaskProject', 'EarlyStart', 'EarlyFinish',
+  'LateStart', 'LateFinish', 'StartVariance', 'FinishVariance', 'WorkVariance', 'FreeSlack', 'TotalSlack',
+  'StartSlack', 'FinishSlack', 'FixedCost', 'FixedCostAccrual', 'PercentComplete', 'PercentWorkComplete', 'Cost',
+  'OvertimeCost', 'OvertimeWork', 'ActualStart', 'ActualFinish', 'ActualDuration', 'ActualCost', 'ActualOvertimeCost',
+  'ActualWork', 'ActualOvertimeWork', 'RegularWork', 'RemainingDuration', 'RemainingCost', 'RemainingWork',
+  'RemainingOvertimeCost', 'RemainingOvertimeWork', 'ACWP', 'CV', 'ConstraintType', 'CalendarUID', 'ConstraintDate',
+  'Deadline', 'LevelAssignments', 'LevelingCanSplit', 'LevelingDelay', 'LevelingDelayFormat', 'PreLeveledStart',
+  'PreLeveledFinish', 'Hyperlink', 'HyperlinkAddress', 'HyperlinkSubAddress', 'IgnoreResourceCalendar', 'Notes',
+  'HideBar', 'Rollup', 'BCWS', 'BCWP', 'PhysicalPercentComplete', 'EarnedValueMethod', 'PredecessorLink',
+  'ActualWorkProtected', 'ActualOvertimeWorkProtected', 'ExtendedAttribute'
+]
+
+const byLabel = (root: WbsNode) => {
+  const out = new Map<string, WbsNode>()
+  const walk = (n: WbsNode) => { out.set(n.label, n); n.children.forEach(walk) }
+  walk(root)
+  return out
+}
+
+const taskElements = (xml: string) =>
+  Array.from(new DOMParser().parseFromString(xml, 'application/xml').getElementsByTagName('Task'))
+
+describe('readMspdi (MS Project export)', () => {
+  const read = readMspdi(projectXml)
+  const nodes = byLabel(parseOutline(read.text))
+
+  it('keeps the hierarchy, codes and task rows and drops the summary and blank tasks', () => {
+    expect(read.title).toBe('Office Move')
+    expect(read.text.split('\n').map(l => l.replace(/ \{.*\}$/, ''))).toEqual([
+      'Planning', '  Survey the new site', '  Seating plan', 'Move', '  Pack <IT> equipment', '  Movers on site'
+    ])
+    expect(read.codes).toEqual(['1', '1.1', '1.2', '2', '2.1', '2.2'])
+    expect(read.rows).toEqual([1, 2, 3, 4, 5, 6])
+  })
+
+  it('maps the task fields onto attributes', () => {
+    expect(nodes.get('Survey the new site')?.attrs).toEqual({
+      owner: 'Facilities', effort: 5, duration: 5, start: '2026-03-02', finish: '2026-03-06',
+      status: 'done', cost: 1000, percentComplete: 100, notes: 'Floor plans & cabling drawings from the landlord'
+    })
+    expect(nodes.get('Pack <IT> equipment')?.attrs).toMatchObject({ owner: 'IT Team', status: 'late', percentComplete: 15 })
+    expect(nodes.get('Seating plan')?.attrs?.owner).toBeUndefined()
+    expect(nodes.get('Movers on site')?.attrs?.percentComplete).toBeUndefined()
+  })
+})
+
+describe('writeMspdi', () => {
+  it('round-trips the exported fixture', () => {
+    const first = readMspdi(projectXml)
+    const root = parseOutline(first.text)
+    const again = readMspdi(writeMspdi(root, computeCodes(root), { title: first.title }))
+    expect(again).toEqual(first)
+  })
+
+  it('writes task children in schema order', () => {
+    const root = parseOutline('Project\n  Build {owner: Ann; effort: 2d; duration: 3d; start: 2026-05-04; finish: 2026-05-06; status: late; cost: 120; complete: 40%; notes: rush}')
+    for (const task of taskElements(writeMspdi(root, computeCodes(root)))) {
+      const order = Array.from(task.children).map(c => XSD_TASK_SEQUENCE.indexOf(c.localName))
+      expect(order).not.toContain(-1)
+      expect(order).toEqual([...order].sort((a, b) => a - b))
+    }
+  })
+
+  it('writes percent complete as a whole number', () => {
+    const root = parseOutline('Build {complete: 33.4%}')
+    const task = taskElements(writeMspdi(root, computeCodes(root)))[0]
+    expect(task.getElementsByTagName('PercentComplete')[0].textContent).toBe('33')
+  })
+})
@@ -0,0 +1,189 @@
+// src/lib/mspdi.ts
+// MS Project XML (MSPDI) ↔ outline. Plain DOM/XML, no MS Project needed.
+import { formatAttributeSuffix, parseDate, parseStatus, type WbsAttributes } from './attributes'
+import { ROOT_ID, type WbsNode } from './parseOutline'
+
+const NS = 'http://schemas.microsoft.com/project'
+
+/** Text1 carries our status (MSPDI has no status field); declared as an extended attribute */
+const STATUS_FIELD_ID = '188743731'
+
+/* ============================================================
+   VALUE CONVERSIONS
+   ============================================================ */
+
+/** "PT40H0M0S" → 5 (days of 8h) */
+function durationToDays(v: string | null): number | undefined {
+  const m = (v ?? '').match(/^P(?:(\d+(?:\.\d+)?)D)?T?(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?$/)
+  if (!m) return undefined
+  const hours = Number(m[1] ?? 0) * 8 + Number(m[2] ?? 0) + Number(m[3] ?? 0) / 60 + Number(m[4] ?? 0) / 3600
+  return Math.round((hours / 8) * 1000) / 1000
+}
+
+const daysToDuration = (days: number) => {
+  const totalMin = Math.round(days * 8 * 60)
+  return `PT${Math.floor(totalMin / 60)}H${totalMin % 60}M0S`
+}
+
+/** MSPDI stores currency in hundredths */
+const readCurrency = (v: string | null) => (v && Number.isFinite(Number(v)) ? Number(v) / 100 : undefined)
+const writeCurrency = (v: number) => String(Math.round(v * 100))
+
+/**
+ * The Task children written here, in the order of the schema's sequence
+ * (mspdi_pj12.xsd). MS Project validates against it and drops what is out of place.
+ */
+const TASK_FIELDS = [
+  'UID', 'ID', 'Name', 'Type', 'IsNull', 'WBS', 'OutlineNumber', 'OutlineLevel', 'Start', 'Finish',
+  'Duration', 'DurationFormat', 'Work', 'Summary', 'FixedCost', 'PercentComplete', 'Cost', 'Notes', 'ExtendedAttribute'
+] as const
+
+type TaskField = (typeof TASK_FIELDS)[number]
+
+const escapeXml = (s: string) =>
+  s.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c]!)
+
+/* ============================================================
+   IMPORT
+   ============================================================ */
+
+export type MspdiOutline = {
+  /** indented outline text with "{…}" attribute blocks */
+  text: string
+  /** WBS field of each outline line, in order ('' when absent) */
+  codes: string[]
+  /** task ID (the row in Project) of each outline line */
+  rows: number[]
+  /** project title, when the file has one */
+  title?: string
+}
+
+const child = (el: Element, name: string) => {
+  for (const c of Array.from(el.children)) if (c.localName === name) return c
+  return null
+}
+const childText = (el: Element, name: string) => child(el, name)?.textContent?.trim() ?? null
+
+/**
+ * Read the task list of an MSPDI file. OutlineLevel drives the hierarchy; the
+ * level-0 project summary task is dropped (its name is the project title), so
+ * several level-1 tasks end up under the usual synthetic "Project" root.
+ */
+export function readMspdi(xml: string): MspdiOutline {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('Not a valid XML file')
+  const project = doc.documentElement
+  if (project.localName !== 'Project') throw new Error('Not an MS Project XML (MSPDI) file')
+
+  const tasksEl = child(project, 'Tasks')
+  const tasks = tasksEl ? Array.from(tasksEl.children).filter(t => t.localName === 'Task') : []
+
+  // owner = first assigned resource
+  const resources = new Map<string, string>()
+  for (const r of Array.from(child(project, 'Resources')?.children ?? [])) {
+    const uid = childText(r, 'UID'), name = childText(r, 'Name')
+    if (uid && name) resources.set(uid, name)
+  }
+  const owners = new Map<string, string>()
+  for (const a of Array.from(child(project, 'Assignments')?.children ?? [])) {
+    const task = childText(a, 'TaskUID'), res = resources.get(childText(a, 'ResourceUID') ?? '')
+    if (task && res && !owners.has(task)) owners.set(task, res)
+  }
+
+  const rows = tasks
+    .filter(t => childText(t, 'IsNull') !== '1' && childText(t, 'Name'))
+    .map(t => ({ el: t, level: Number(childText(t, 'OutlineLevel') ?? 1), id: Number(childText(t, 'ID') ?? 0) }))
+    .filter(r => r.level >= 1)
+    .sort((a, b) => a.id - b.id)
+
+  const lines: string[] = []
+  const codes: string[] = []
+  const ids: number[] = []
+  for (const { el, level, id } of rows) {
+    const uid = childText(el, 'UID') ?? ''
+    const attrs: WbsAttributes = {}
+    const owner = owners.get(uid)
+    if (owner) attrs.owner = owner
+    const work = durationToDays(childText(el, 'Work'))
+    if (work) attrs.effort = work
+    const duration = durationToDays(childText(el, 'Duration'))
+    if (duration) attrs.duration = duration
+    const start = parseDate(childText(el, 'Start'))
+    if (start) attrs.start = start
+    const finish = parseDate(childText(el, 'Finish'))
+    if (finish) attrs.finish = finish
+    const cost = readCurrency(childText(el, 'Cost')) || readCurrency(childText(el, 'FixedCost'))
+    if (cost) attrs.cost = cost
+    const pct = Number(childText(el, 'PercentComplete') ?? '')
+    if (pct) attrs.percentComplete = pct
+    const notes = childText(el, 'Notes')
+    if (notes) attrs.notes = notes
+    for (const ext of Array.from(el.children).filter(c => c.localName === 'ExtendedAttribute')) {
+      if (childText(ext, 'FieldID') === STATUS_FIELD_ID) attrs.status = parseStatus(childText(ext, 'Value'))
+    }
+    lines.push(`${'  '.repeat(level - 1)}${childText(el, 'Name')}${formatAttributeSuffix(attrs)}`)
+    codes.push(childText(el, 'WBS') ?? '')
+    ids.push(id)
+  }
+  return { text: lines.join('\n'), codes, rows: ids, title: childText(project, 'Title') ?? childText(project, 'Name') ?? undefined }
+}
+
+/* ============================================================
+   EXPORT
+   ============================================================ */
+
+/**
+ * Write the tree as an MSPDI task list: outline structure, our WBS codes in the
+ * WBS field, and the attributes MS Project has fields for (owner as an assigned
+ * resource, status in Text1). No project summary task is written; MS Project adds its own.
+ */
+export function writeMspdi(root: WbsNode, codes: Map<string, string>, { title = '' }: { title?: string } = {}): string {
+  const tasks: string[] = []
+  const resources = new Map<string, number>()
+  const assignments: string[] = []
+  let uid = 0
+
+  const el = (name: string, value: string | number | undefined) =>
+    value === undefined || value === '' ? '' : `<${name}>${escapeXml(String(value))}</${name}>`
+
+  const visit = (n: WbsNode, outline: string, level: number) => {
+    const a = n.attrs ?? {}
+    const id = ++uid
+    const leaf = n.children.length === 0
+    if (a.owner) {
+      if (!resources.has(a.owner)) resources.set(a.owner, resources.size + 1)
+      assignments.push(`<Assignment><UID>${assignments.length + 1}</UID><TaskUID>${id}</TaskUID><ResourceUID>${resources.get(a.owner)}</ResourceUID></Assignment>`)
+    }
+    const fields: Partial<Record<TaskField, string>> = {
+      UID: el('UID', id), ID: el('ID', id), Name: el('Name', n.label), Type: el('Type', 1), IsNull: el('IsNull', 0),
+      WBS: el('WBS', codes.get(n.id) ?? outline), OutlineNumber: el('OutlineNumber', outline), OutlineLevel: el('OutlineLevel', level),
+      Start: el('Start', a.start && `${a.start}T08:00:00`), Finish: el('Finish', a.finish && `${a.finish}T17:00:00`),
+      Duration: el('Duration', a.duration !== undefined ? daysToDuration(a.duration) : undefined),
+      DurationFormat: el('DurationFormat', a.duration !== undefined ? 7 : undefined),
+      Work: el('Work', a.effort !== undefined ? daysToDuration(a.effort) : undefined),
+      Summary: el('Summary', leaf ? 0 : 1),
+      FixedCost: el('FixedCost', leaf && a.cost !== undefined ? writeCurrency(a.cost) : undefined),
+      // the schema types it as an integer
+      PercentComplete: el('PercentComplete', a.percentComplete !== undefined ? Math.round(a.percentComplete) : undefined),
+      Cost: el('Cost', a.cost !== undefined ? writeCurrency(a.cost) : undefined),
+      Notes: el('Notes', a.notes),
+      ExtendedAttribute: a.status ? `<ExtendedAttribute><FieldID>${STATUS_FIELD_ID}</FieldID><Value>${escapeXml(a.status)}</Value></ExtendedAttribute>` : ''
+    }
+    tasks.push(`<Task>${TASK_FIELDS.map(f => fields[f] ?? '').join('')}</Task>`)
+    n.children.forEach((c, i) => visit(c, `${outline}.${i + 1}`, level + 1))
+  }
+  const top = root.id === ROOT_ID ? root.children : [root]
+  top.forEach((n, i) => visit(n, String(i + 1), 1))
+
+  const name = title.trim() || (root.id === ROOT_ID ? 'Project' : root.label)
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<Project xmlns="${NS}">`,
+    `<SaveVersion>14</SaveVersion>${el('Name', name)}${el('Title', name)}`,
+    `<ExtendedAttributes><ExtendedAttribute><FieldID>${STATUS_FIELD_ID}</FieldID><FieldName>Text1</FieldName><Alias>Status</Alias></ExtendedAttribute></ExtendedAttributes>`,
+    `<Tasks>${tasks.join('\n')}</Tasks>`,
+    `<Resources>${[...resources].map(([r, i]) => `<Resource><UID>${i}</UID><ID>${i}</ID>${el('Name', r)}<Type>1</Type></Resource>`).join('')}</Resources>`,
+    `<Assignments>${assignments.join('')}</Assignments>`,
+    '</Project>'
+  ].join('\n')
+}
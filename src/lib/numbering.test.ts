@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { compareCodes, computeCodes, DEFAULT_NUMBERING, formatSegment, NUMBERING_PRESETS } from './numbering'
+import { parseOutline, type WbsNode } from './parseOutline'
+
+const codesByLabel = (root: WbsNode, codes: Map<string, string>) => {
+  const out: Record<string, string> = {}
+  const walk = (n: WbsNode) => { if (codes.get(n.id)) out[n.label] = codes.get(n.id)!; n.children.forEach(walk) }
+  walk(root)
+  return out
+}
+
+describe('computeCodes', () => {
+  const single = parseOutline('Project\n  Design\n  Build\n    Code\n    Test')
+  const several = parseOutline('Design\nBuild\n  Code')
+
+  it('numbers a single top node and its children', () => {
+    expect(codesByLabel(single, computeCodes(single))).toEqual({ Project: '1', Design: '1.1', Build: '1.2', Code: '1.2.1', Test: '1.2.2' })
+  })
+
+  it('leaves the synthetic root without a code', () => {
+    expect(codesByLabel(several, computeCodes(several))).toEqual({ Design: '1', Build: '2', Code: '2.1' })
+  })
+
+  it('honours start, separator, styles and numberRoot', () => {
+    expect(codesByLabel(single, computeCodes(single, { ...DEFAULT_NUMBERING, start: 0, numberRoot: false })))
+      .toEqual({ Design: '0', Build: '1', Code: '1.0', Test: '1.1' })
+    expect(codesByLabel(single, computeCodes(single, { ...DEFAULT_NUMBERING, ...NUMBERING_PRESETS['A.1.a'] })))
+      .toMatchObject({ Project: 'A', Build: 'A.2', Test: 'A.2.b' })
+    expect(codesByLabel(single, computeCodes(single, { ...DEFAULT_NUMBERING, ...NUMBERING_PRESETS['1-1-1'] })).Code).toBe('1-2-1')
+  })
+})
+
+describe('formatSegment', () => {
+  it('writes letters and numerals', () => {
+    expect(formatSegment(28, 'upper-alpha')).toBe('AB')
+    expect(formatSegment(14, 'lower-roman')).toBe('xiv')
+    expect(formatSegment(0, 'upper-roman')).toBe('0')
+  })
+})
+
+describe('compareCodes', () => {
+  it('reports the line each wrong code was written on, blank lines included', () => {
+    const text = 'Project\n\n  Design\n\n  Build'
+    const issues = compareCodes(parseOutline(text), ['1', '', '1.1', '', '1.3'])
+    expect(issues).toEqual([{ row: 5, label: 'Build', code: '1.3', expected: '1.2' }])
+  })
+
+  it('maps lines to file rows when given', () => {
+    const issues = compareCodes(parseOutline('Project\n  Design'), ['1', '1.4'], DEFAULT_NUMBERING, [2, 7])
+    expect(issues).toEqual([{ row: 7, label: 'Design', code: '1.4', expected: '1.1' }])
+  })
+
+  it('ignores lines without a code', () => {
+    expect(compareCodes(parseOutline('Project\n  Design'), ['', ''])).toEqual([])
+  })
+})
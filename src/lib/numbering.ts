@@ -0,0 +1,99 @@
+// src/lib/numbering.ts
+import { ROOT_ID, type WbsNode } from './parseOutline'
+
+export type NumberStyle = 'decimal' | 'upper-alpha' | 'lower-alpha' | 'upper-roman' | 'lower-roman'
+
+export type NumberingScheme = {
+  /** first number at every decimal level (usually 1, sometimes 0); letters and numerals always start at A / I */
+  start: number
+  separator: string
+  /** a single top node gets its own code ("1", children "1.1"); otherwise its children start at "1" */
+  numberRoot: boolean
+  /** style per level; the last entry repeats for deeper levels */
+  styles: NumberStyle[]
+}
+
+export const DEFAULT_NUMBERING: NumberingScheme = { start: 1, separator: '.', numberRoot: true, styles: ['decimal'] }
+
+/** Named schemes offered in the toolbar */
+export const NUMBERING_PRESETS: Record<string, Pick<NumberingScheme, 'separator' | 'styles'>> = {
+  '1.1.1': { separator: '.', styles: ['decimal'] },
+  '1-1-1': { separator: '-', styles: ['decimal'] },
+  'A.1.a': { separator: '.', styles: ['upper-alpha', 'decimal', 'lower-alpha'] },
+  'I.A.1': { separator: '.', styles: ['upper-roman', 'upper-alpha', 'decimal'] }
+}
+
+function alpha(n: number): string {
+  let s = ''
+  for (; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s
+  return s
+}
+
+function roman(n: number): string {
+  const table: Array<[number, string]> = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+  ]
+  let s = ''
+  for (const [v, r] of table) for (; n >= v; n -= v) s += r
+  return s
+}
+
+/** One code segment; letters and numerals need n ≥ 1, anything lower falls back to digits */
+export function formatSegment(n: number, style: NumberStyle): string {
+  if (style === 'decimal' || n < 1) return String(n)
+  if (style === 'upper-alpha') return alpha(n)
+  if (style === 'lower-alpha') return alpha(n).toLowerCase()
+  if (style === 'upper-roman') return roman(n)
+  return roman(n).toLowerCase()
+}
+
+/**
+ * Hierarchical codes (1, 1.1, 1.1.2 …) for every node, by position in the tree.
+ * Computed fresh from the structure, so codes follow every edit. The synthetic
+ * "Project" root never gets a code.
+ */
+export function computeCodes(root: WbsNode, scheme: NumberingScheme = DEFAULT_NUMBERING): Map<string, string> {
+  const codes = new Map<string, string>()
+  const segment = (i: number, depth: number) => {
+    const style = scheme.styles[Math.min(depth, scheme.styles.length - 1)] ?? 'decimal'
+    return formatSegment(style === 'decimal' ? scheme.start + i : i + 1, style)
+  }
+  const visit = (n: WbsNode, prefix: string[]) => {
+    codes.set(n.id, prefix.join(scheme.separator))
+    n.children.forEach((c, i) => visit(c, [...prefix, segment(i, prefix.length)]))
+  }
+
+  if (root.id === ROOT_ID || !scheme.numberRoot) root.children.forEach((c, i) => visit(c, [segment(i, 0)]))
+  else visit(root, [segment(0, 0)])
+  return codes
+}
+
+/** A code in an imported file that differs from the one the numbering engine computes */
+export type CodeIssue = {
+  /** row of the source file (see `rows` in compareCodes) */
+  row: number
+  label: string
+  code: string
+  expected: string
+}
+
+/**
+ * Compare codes as written in a file (one per line of the outline text the tree
+ * was parsed from; '' for lines without one) against the computed codes. Nodes
+ * find their code through the line parseOutline recorded; `rows` gives each
+ * outline line's row in the source file (the line itself when absent).
+ */
+export function compareCodes(root: WbsNode, fileCodes: string[], scheme: NumberingScheme = DEFAULT_NUMBERING, rows?: number[]): CodeIssue[] {
+  const codes = computeCodes(root, scheme)
+  const issues: CodeIssue[] = []
+  const walk = (n: WbsNode) => {
+    const line = n.line
+    const code = line !== undefined && n.id !== ROOT_ID ? fileCodes[line - 1]?.trim() : undefined
+    const expected = codes.get(n.id) ?? ''
+    if (code && code !== expected) issues.push({ row: rows?.[line! - 1] ?? line!, label: n.label, code, expected })
+    n.children.forEach(walk)
+  }
+  walk(root)
+  return issues
+}
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { computeCodes } from './numbering'
+import { readMarkdown, readOpml, toMarkdown, toMermaid, toOpml } from './outlineFormats'
+import { parseOutline } from './parseOutline'
+
+describe('Markdown', () => {
+  it('nests headings and list items', () => {
+    const md = '# Office move\n\nSome prose.\n\n## Plan\n- Survey\n  - [x] Floor plans\n1. Seating\n## Move\n```\n- not an item\n```\n* **Pack** [IT](http://x)'
+    expect(readMarkdown(md)).toEqual({
+      title: 'Office move',
+      text: 'Office move\n  Plan\n    Survey\n      Floor plans {status: done}\n    Seating\n  Move\n    Pack IT'
+    })
+  })
+
+  it('writes a bullet list with codes', () => {
+    const root = parseOutline('Project\n  Design\n  Build')
+    expect(toMarkdown(root, { codes: computeCodes(root) })).toBe('- 1 Project\n  - 1.1 Design\n  - 1.2 Build\n')
+  })
+})
+
+describe('OPML', () => {
+  it('round-trips labels and attributes', () => {
+    const text = 'Project\n  Design {owner: Ann & Bo; complete: 40%}\n  Build <core>'
+    const opml = toOpml(parseOutline(text), { title: 'Move' })
+    expect(readOpml(opml)).toEqual({ text, title: 'Move' })
+  })
+})
+
+/** Known-good samples: both parse with Mermaid 11 (`mermaid.parse`) */
+describe('toMermaid', () => {
+  const root = parseOutline('Office "HQ" move\n  Plan [draft] (v2)\n  Pack `IT` {kit}\n    Label *all* boxes')
+
+  it('writes mindmap labels as markdown strings', () => {
+    expect(toMermaid(root, 'mindmap', { codes: computeCodes(root) })).toBe([
+      'mindmap',
+      '  n1["`1 Office ”HQ” move`"]',
+      '    n2["`1.1 Plan [draft] (v2)`"]',
+      "    n3[\"`1.2 Pack 'IT' {kit}`\"]",
+      '      n4["`1.2.1 Label *all* boxes`"]',
+      ''
+    ].join('\n'))
+  })
+
+  it('writes a flowchart with entity-escaped quotes', () => {
+    expect(toMermaid(root, 'flowchart')).toBe([
+      'flowchart TD',
+      '  n1["Office #quot;HQ#quot; move"]',
+      '  n1 --> n2',
+      '  n2["Plan [draft] (v2)"]',
+      '  n1 --> n3',
+      '  n3["Pack `IT` {kit}"]',
+      '  n3 --> n4',
+      '  n4["Label *all* boxes"]',
+      ''
+    ].join('\n'))
+  })
+
+  it('keeps a single root for several top-level nodes', () => {
+    expect(toMermaid(parseOutline('A\nB'), 'mindmap', { title: 'Say "x"' })).toBe('mindmap\n  n1["`Say ”x”`"]\n    n2["`A`"]\n    n3["`B`"]\n')
+  })
+})
@@ -0,0 +1,194 @@
+// src/lib/outlineFormats.ts
+// Plain-text outline formats: Markdown and OPML (both ways), Mermaid (export only).
+import { ATTRIBUTE_KEYS, formatAttributeSuffix, setAttribute, type WbsAttributes } from './attributes'
+import { ROOT_ID, type WbsNode } from './parseOutline'
+
+/** Outline text read from a file, plus its title when the format has one */
+export type TextOutline = { text: string; title?: string }
+
+const escapeXml = (s: string) =>
+  s.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c]!)
+
+/** Top-level nodes to write: the synthetic "Project" root is implied by several of them */
+const topNodes = (root: WbsNode) => (root.id === ROOT_ID ? root.children : [root])
+
+/* ============================================================
+   MARKDOWN
+   ============================================================ */
+
+/** Drop inline markup that would end up in labels: links, emphasis, code spans */
+function plainInline(s: string): string {
+  return s
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_](\S(?:.*?\S)?)[*_](?![\w*])/g, '$1$2')
+    .replace(/`([^`]*)`/g, '$1')
+    .trim()
+}
+
+/**
+ * Markdown → indented outline. Headings nest by level; bullet (-, *, +) and
+ * numbered (1. / 1)) items nest by indentation below the closest heading.
+ * "[x]" task boxes become status done. Paragraphs and code blocks are ignored.
+ */
+export function readMarkdown(md: string): TextOutline {
+  const lines = md.split(/\r?\n/)
+  const headingLevels = lines.map(l => l.match(/^(#{1,6})\s+\S/)?.[1].length).filter((n): n is number => !!n)
+  const minHeading = headingLevels.length ? Math.min(...headingLevels) : 1
+
+  const out: string[] = []
+  let headingDepth = -1   // depth of the current heading (-1 before any)
+  let listIndents: number[] = []
+  let fenced = false
+
+  for (const raw of lines) {
+    if (/^\s*(```|~~~)/.test(raw)) { fenced = !fenced; continue }
+    if (fenced) continue
+
+    const heading = raw.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/)
+    if (heading) {
+      headingDepth = heading[1].length - minHeading
+      listIndents = []
+      const label = plainInline(heading[2])
+      if (label) out.push(`${'  '.repeat(headingDepth)}${label}`)
+      continue
+    }
+
+    const item = raw.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/)
+    if (!item) continue
+    const indent = item[1].replace(/\t/g, '    ').length
+    while (listIndents.length && indent <= listIndents[listIndents.length - 1]) listIndents.pop()
+    listIndents.push(indent)
+    let label = plainInline(item[3])
+    if (!label) continue
+    if (item[2]?.toLowerCase() === 'x' && !/\{[^{}]*\}\s*$/.test(label)) label += formatAttributeSuffix({ status: 'done' })
+    out.push(`${'  '.repeat(headingDepth + listIndents.length)}${label}`)
+  }
+
+  const title = lines.find(l => /^#\s+\S/.test(l))?.replace(/^#\s+/, '').trim()
+  return { text: out.join('\n'), title }
+}
+
+/** Nested bullet list; labels carry their WBS code when `codes` is given */
+export function toMarkdown(root: WbsNode, { codes, attributes = false }: { codes?: Map<string, string>; attributes?: boolean } = {}): string {
+  const out: string[] = []
+  const visit = (n: WbsNode, depth: number) => {
+    const code = codes?.get(n.id)
+    const suffix = attributes ? formatAttributeSuffix(n.attrs) : ''
+    out.push(`${'  '.repeat(depth)}- ${code ? `${code} ` : ''}${n.label}${suffix}`)
+    n.children.forEach(c => visit(c, depth + 1))
+  }
+  topNodes(root).forEach(n => visit(n, 0))
+  return out.join('\n') + '\n'
+}
+
+/* ============================================================
+   OPML
+   ============================================================ */
+
+/** OPML → indented outline; task attributes come back from same-named outline attributes and `_note` */
+export function readOpml(xml: string): TextOutline {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('Not a valid OPML file')
+  const body = doc.getElementsByTagName('body')[0]
+  if (!body) throw new Error('OPML file has no <body>')
+
+  const out: string[] = []
+  const visit = (el: Element, depth: number) => {
+    const label = (el.getAttribute('text') ?? el.getAttribute('title') ?? '').trim()
+    let next = depth
+    if (label) {
+      const attrs: WbsAttributes = {}
+      for (const k of ATTRIBUTE_KEYS) if (el.hasAttribute(k)) setAttribute(attrs, k, el.getAttribute(k))
+      if (!attrs.notes && el.getAttribute('_note')) attrs.notes = el.getAttribute('_note')!.trim()
+      out.push(`${'  '.repeat(depth)}${label.replace(/\s*\n\s*/g, ' ')}${formatAttributeSuffix(attrs)}`)
+      next = depth + 1
+    }
+    for (const c of Array.from(el.children)) if (c.localName === 'outline') visit(c, next)
+  }
+  for (const c of Array.from(body.children)) if (c.localName === 'outline') visit(c, 0)
+
+  const title = doc.getElementsByTagName('title')[0]?.textContent?.trim() || undefined
+  return { text: out.join('\n'), title }
+}
+
+/** OPML 2.0; attributes are written as outline attributes (notes also as `_note`, which most tools show) */
+export function toOpml(root: WbsNode, { title = '' }: { title?: string } = {}): string {
+  const lines: string[] = []
+  const visit = (n: WbsNode, depth: number) => {
+    const pad = '  '.repeat(depth + 2)
+    let attrs = ` text="${escapeXml(n.label)}"`
+    for (const k of ATTRIBUTE_KEYS) {
+      const v = n.attrs?.[k]
+      if (v !== undefined) attrs += ` ${k}="${escapeXml(String(v))}"`
+    }
+    if (n.attrs?.notes) attrs += ` _note="${escapeXml(n.attrs.notes)}"`
+    if (!n.children.length) { lines.push(`${pad}<outline${attrs}/>`); return }
+    lines.push(`${pad}<outline${attrs}>`)
+    n.children.forEach(c => visit(c, depth + 1))
+    lines.push(`${pad}</outline>`)
+  }
+  topNodes(root).forEach(n => visit(n, 0))
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    `  <head><title>${escapeXml(title.trim() || (root.id === ROOT_ID ? 'Project' : root.label))}</title></head>`,
+    '  <body>',
+    ...lines,
+    '  </body>',
+    '</opml>'
+  ].join('\n') + '\n'
+}
+
+/* ============================================================
+   MERMAID
+   ============================================================ */
+
+/** Flowchart labels: Mermaid entity-escapes quotes; square-bracket quoted text takes anything else */
+const mermaidText = (s: string) => s.replace(/"/g, '#quot;')
+
+/**
+ * Mindmap labels go in a markdown string (`id["`text`"]`), so brackets and parentheses
+ * can't close the shape early; that string can hold neither a double quote nor a backtick.
+ */
+const mindmapText = (s: string) => s.replace(/"/g, '”').replace(/`/g, "'")
+
+export type MermaidKind = 'mindmap' | 'flowchart'
+
+/**
+ * Mermaid `mindmap` or top-down `flowchart` source. A synthetic root is written
+ * as the title (or "Project") so the diagram keeps a single root.
+ */
+export function toMermaid(root: WbsNode, kind: MermaidKind, { codes, title = '' }: { codes?: Map<string, string>; title?: string } = {}): string {
+  const ids = new Map<string, string>()
+  const idFor = (n: WbsNode) => {
+    if (!ids.has(n.id)) ids.set(n.id, `n${ids.size + 1}`)
+    return ids.get(n.id)!
+  }
+  const textFor = (n: WbsNode) => {
+    if (n.id === ROOT_ID) return title.trim() || n.label
+    const code = codes?.get(n.id)
+    return `${code ? `${code} ` : ''}${n.label}`
+  }
+
+  const out: string[] = []
+  if (kind === 'mindmap') {
+    out.push('mindmap')
+    const visit = (n: WbsNode, depth: number) => {
+      out.push(`${'  '.repeat(depth + 1)}${idFor(n)}["\`${mindmapText(textFor(n))}\`"]`)
+      n.children.forEach(c => visit(c, depth + 1))
+    }
+    visit(root, 0)
+  } else {
+    out.push('flowchart TD')
+    const visit = (n: WbsNode) => {
+      out.push(`  ${idFor(n)}["${mermaidText(textFor(n))}"]`)
+      for (const c of n.children) {
+        out.push(`  ${idFor(n)} --> ${idFor(c)}`)
+        visit(c)
+      }
+    }
+    visit(root)
+  }
+  return out.join('\n') + '\n'
+}
@@ -1,17 +1,49 @@
 // src/lib/parseOutline.ts
+import { splitAttributes, type WbsAttributes } from './attributes'
 
 export type WbsNode = {
   id: string
   label: string
   level: number
+  /** WBS code as written in the source (two-column input only) */
+  code?: string
+  /** task data from a trailing "{owner: …; effort: …}" block */
+  attrs?: WbsAttributes
+  /** 1-based line of the text it was parsed from; only meaningful straight after parseOutline */
+  line?: number
   children: WbsNode[]
 }
 
+/** How an outline was written, so it can be rewritten the same way */
+export type OutlineStyle = {
+  format: 'wbs' | 'indent'
+  /** one level of indentation (indented outlines) */
+  indent: string
+}
+
+/** Id of the synthetic "Project" node added when an outline has several top-level lines */
+export const ROOT_ID = 'root'
+
 /** Utilities */
-const uid = (() => {
-  let n = 0
-  return (prefix = 'n') => `${prefix}_${++n}`
-})()
+
+/** FNV-1a hash → short base36 string; deterministic so ids survive re-parsing */
+function hash(str: string): string {
+  let h = 0x811c9dc5
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(36)
+}
+
+/** Id derived from the label path (root → node); duplicate siblings carry their occurrence index */
+function pathId(path: string[], taken: Set<string>): string {
+  const base = `n_${hash(path.join('\u0001'))}`
+  let id = base
+  for (let k = 2; taken.has(id); k++) id = `${base}_${k}`
+  taken.add(id)
+  return id
+}
 
 function trimRight(str: string) {
   return str.replace(/\s+$/g, '')
@@ -21,9 +53,9 @@ function trimRight(str: string) {
    WBS TABLE PARSER (e.g., "1.2.3<TAB>Task name")
    ============================================================ */
 
-type WbsRow = { code: string; name: string }
+export type WbsRow = { code: string; name: string; line?: number }
 
-function looksLikeWbsLine(line: string): WbsRow | null {
+export function looksLikeWbsLine(line: string): WbsRow | null {
   // Allow tabs or 2+ spaces between code and name
   const m = line.match(/^\s*(\d+(?:\.\d+)*)\s*(?:\t+|\s{2,})\s*(.+?)\s*$/)
   if (!m) return null
@@ -35,12 +67,12 @@ function looksLikeWbsLine(line: string): WbsRow | null {
 
 function detectWbsRows(lines: string[]): WbsRow[] {
   const rows: WbsRow[] = []
-  for (const raw of lines) {
+  lines.forEach((raw, i) => {
     const line = trimRight(raw)
-    if (!line) continue
+    if (!line) return
     const r = looksLikeWbsLine(line)
-    if (r) rows.push(r)
-  }
+    if (r) rows.push({ ...r, line: i + 1 })
+  })
   return rows
 }
 
@@ -49,13 +81,17 @@ function buildTreeFromWbsRows(rows: WbsRow[]): WbsNode {
   const nodesByCode = new Map<string, WbsNode>()
   const codes: string[][] = []
 
-  for (const { code, name } of rows) {
+  for (const { code, name, line } of rows) {
     const segs = code.split('.')
     codes.push(segs)
+    const { label, attrs } = splitAttributes(name)
     // Create node for this code
     nodesByCode.set(code, {
       id: code,                 // stable
-      label: name,
+      code,
+      attrs,
+      line,
+      label,
       level: segs.length - 1,   // absolute depth (we’ll normalize later)
       children: []
     })
@@ -99,7 +135,7 @@ function buildTreeFromWbsRows(rows: WbsRow[]): WbsNode {
     } else {
       // Synthetic root
       root = {
-        id: uid('root'),
+        id: ROOT_ID,
         label: 'Project',
         level: 0,
         children: []
@@ -107,10 +143,12 @@ function buildTreeFromWbsRows(rows: WbsRow[]): WbsNode {
     }
   }
 
-  // Link parents/children
+  // Link parents/children (a duplicated code is linked once; its later row wins)
+  const linked = new Set<string>()
   for (const { code } of rows) {
     const segs = code.split('.')
-    if (nodesByCode.get(code) === root) continue
+    if (nodesByCode.get(code) === root || linked.has(code)) continue
+    linked.add(code)
 
     const parentCode =
       segs.length > 1 ? segs.slice(0, segs.length - 1).join('.') : null
@@ -128,7 +166,7 @@ function buildTreeFromWbsRows(rows: WbsRow[]): WbsNode {
   }
 
   // If synthetic root and there exist minimal-depth nodes not attached, attach them
-  if (root.label === 'Project') {
+  if (root.id === ROOT_ID) {
     const attached = new Set(root.children.map(c => c.id))
     for (const [code, node] of nodesByCode) {
       if (node === root) continue
@@ -159,7 +197,7 @@ function buildTreeFromWbsRows(rows: WbsRow[]): WbsNode {
    INDENTED OUTLINE PARSER (spaces indicate levels)
    ============================================================ */
 
-function countIndent(line: string): number {
+export function countIndent(line: string): number {
   // Tabs treated as 2 spaces
   let n = 0
   for (const ch of line) {
@@ -171,27 +209,33 @@ function countIndent(line: string): number {
 }
 
 function buildTreeFromIndent(lines: string[]): WbsNode {
-  type StackItem = { node: WbsNode; indent: number }
-  const root: WbsNode = { id: uid('root'), label: 'Project', level: 0, children: [] }
-  const stack: StackItem[] = [{ node: root, indent: -1 }]
+  type StackItem = { node: WbsNode; indent: number; path: string[]; seen: Map<string, number> }
+  const root: WbsNode = { id: ROOT_ID, label: 'Project', level: 0, children: [] }
+  const stack: StackItem[] = [{ node: root, indent: -1, path: [], seen: new Map() }]
+  const taken = new Set<string>([ROOT_ID])
 
-  for (const raw of lines) {
+  lines.forEach((raw, lineIndex) => {
     const line = trimRight(raw)
-    if (!line.trim()) continue
+    if (!line.trim()) return
     const indent = countIndent(line)
-    const label = line.trim()
-
-    const node: WbsNode = { id: uid('n'), label, level: 0, children: [] }
+    const { label, attrs } = splitAttributes(line.trim())
 
     // find parent by indentation
     while (stack.length && indent <= stack[stack.length - 1].indent) {
       stack.pop()
     }
-    const parent = stack[stack.length - 1].node
-    node.level = parent.level + 1
+    const top = stack[stack.length - 1]
+    const parent = top.node
+
+    // path segment = label, plus occurrence index when a sibling has the same label
+    const nth = (top.seen.get(label) ?? 0) + 1
+    top.seen.set(label, nth)
+    const path = [...top.path, nth > 1 ? `${label}#${nth}` : label]
+
+    const node: WbsNode = { id: pathId(path, taken), label, level: parent.level + 1, attrs, line: lineIndex + 1, children: [] }
     parent.children.push(node)
-    stack.push({ node, indent })
-  }
+    stack.push({ node, indent, path, seen: new Map() })
+  })
   return root.children.length === 1 ? root.children[0] : root
 }
 
@@ -199,6 +243,19 @@ function buildTreeFromIndent(lines: string[]): WbsNode {
    PUBLIC: parseOutline — auto-detects WBS-table vs indented
    ============================================================ */
 
+export function detectOutlineStyle(text: string): OutlineStyle {
+  const lines = text.split(/\r?\n/)
+  if (detectWbsRows(lines).length >= 2) return { format: 'wbs', indent: '  ' }
+  let indent = 0
+  for (const line of lines) {
+    if (!line.trim()) continue
+    if (line.startsWith('\t')) return { format: 'indent', indent: '\t' }
+    const n = countIndent(line)
+    if (n > 0 && (indent === 0 || n < indent)) indent = n
+  }
+  return { format: 'indent', indent: ' '.repeat(indent || 2) }
+}
+
 export function parseOutline(text: string): WbsNode {
   const lines = text.split(/\r?\n/)
   // 1) Try WBS table detection
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { inflateSync } from 'node:zlib'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { svgToPdf } from './pdfExport'
+
+const svg = (body: string, viewBox = '0 0 400 200') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}">${body}</svg>`
+
+/** Page dictionaries, fonts and the document info are not compressed, so they can be read from the file */
+const pdfText = async (blob: Blob) => new TextDecoder('latin1').decode(await blob.arrayBuffer())
+
+/** Base fonts the page content sets text in: `/F2 16 Tf` in the (deflated) content → resource F2 → its font object */
+function fontsUsed(pdf: string): string[] {
+  const objects = new Map([...pdf.matchAll(/\/(F\d+) (\d+) 0 R/g)].map(([, name, obj]) => [name, obj]))
+  const baseFont = (obj?: string) => pdf.match(new RegExp(`\\n${obj} 0 obj\\n<<\\n/Type /Font\\n/BaseFont /(\\S+)`))?.[1]
+  const names = [...pdf.matchAll(/stream\n([\s\S]*?)\nendstream/g)]
+    .flatMap(([, data]) => [...inflateSync(Buffer.from(data, 'latin1')).toString('latin1').matchAll(/\/(F\d+) [\d.]+ Tf/g)])
+    .map(([, name]) => baseFont(objects.get(name)))
+  return [...new Set(names)].sort() as string[]
+}
+
+// jsdom lays nothing out: svg2pdf's text measuring gets no canvas and empty boxes
+beforeEach(() => {
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null)
+  Object.defineProperty(SVGElement.prototype, 'getBBox', { configurable: true, value: () => ({ x: 0, y: 0, width: 0, height: 0 }) })
+})
+afterEach(() => vi.restoreAllMocks())
+
+describe('svgToPdf', () => {
+  it('sizes the page from the viewBox', async () => {
+    const text = await pdfText(await svgToPdf(svg('<rect width="400" height="200" fill="#dbeafe"/>')))
+    expect(text).toMatch(/\/MediaBox \[0 0 300\.?0* 150\.?0*\]/)
+  })
+
+  it('records the title, author and version', async () => {
+    const meta = { title: 'Plan', author: 'Ann', version: 'v2', date: new Date(2026, 0, 5) }
+    const text = await pdfText(await svgToPdf(svg(''), { meta }))
+    expect(text).toContain('/Title (Plan)')
+    expect(text).toContain('/Author (Ann)')
+    expect(text).toMatch(/\/Subject \(Version v2 · [^)]+\)/)
+    expect(text).toContain('/Keywords (WBS, v2)')
+  })
+
+  it('sets numeric font weights as bold or normal', async () => {
+    const text = await pdfText(await svgToPdf(svg(
+      '<text x="10" y="20" font-family="sans-serif" font-weight="600">Design</text>' +
+      '<text x="10" y="60" font-family="sans-serif" font-weight="400">Build</text>'
+    )))
+    expect(fontsUsed(text)).toEqual(['Helvetica', 'Helvetica-Bold'])
+  })
+
+  it('rejects with the font that could not be loaded', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 404 }))
+    await expect(svgToPdf(svg(''), { fonts: [{ family: 'Inter', url: '/fonts/inter.ttf' }] }))
+      .rejects.toThrow('Font Inter could not be loaded (404)')
+  })
+})
@@ -0,0 +1,78 @@
+// src/lib/pdfExport.ts
+// Vector PDF from an exported SVG (jsPDF + svg2pdf.js, loaded on demand), without the browser's print dialog.
+import type { jsPDF } from 'jspdf'
+
+export type PdfMeta = {
+  title?: string
+  author?: string
+  /** e.g. the name of the latest saved version */
+  version?: string
+  date?: Date
+}
+
+/**
+ * A TrueType font to embed. Text whose font list names `family` (see the theme's fontFamily) is set in it;
+ * without one, text falls back to the PDF base fonts (Helvetica, Times or Courier, by generic family).
+ */
+export type PdfFont = { family: string; url: string; weight?: 'normal' | 'bold' }
+
+const PT_PER_PX = 0.75
+
+function toBase64(buf: ArrayBuffer): string {
+  const bytes = new Uint8Array(buf)
+  let bin = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  return btoa(bin)
+}
+
+async function embedFonts(pdf: jsPDF, fonts: PdfFont[]) {
+  for (const f of fonts) {
+    const res = await fetch(f.url)
+    if (!res.ok) throw new Error(`Font ${f.family} could not be loaded (${res.status})`)
+    const file = `${f.family}-${f.weight ?? 'normal'}.ttf`
+    pdf.addFileToVFS(file, toBase64(await res.arrayBuffer()))
+    pdf.addFont(file, f.family, f.weight ?? 'normal')
+  }
+}
+
+/** PDF fonts come in normal and bold only; "600" would otherwise fall back to Times */
+function boldOrNormal(svgEl: Element) {
+  svgEl.querySelectorAll('[font-weight]').forEach(el => {
+    const w = el.getAttribute('font-weight') ?? ''
+    el.setAttribute('font-weight', w === 'bold' || Number(w) >= 600 ? 'bold' : 'normal')
+  })
+}
+
+/** One page the size of the drawing; `xml` is a complete SVG document with a viewBox */
+export async function svgToPdf(xml: string, { meta = {}, fonts = [] }: { meta?: PdfMeta; fonts?: PdfFont[] } = {}): Promise<Blob> {
+  const [{ jsPDF }, { svg2pdf }] = await Promise.all([import('jspdf'), import('svg2pdf.js')])
+  const svgEl = new DOMParser().parseFromString(xml, 'image/svg+xml').documentElement
+  const [, , vbW, vbH] = (svgEl.getAttribute('viewBox') ?? '').split(/\s+/).map(Number)
+  const w = (vbW || parseFloat(svgEl.getAttribute('width') ?? '') || 800) * PT_PER_PX
+  const h = (vbH || parseFloat(svgEl.getAttribute('height') ?? '') || 600) * PT_PER_PX
+  boldOrNormal(svgEl)
+
+  const pdf = new jsPDF({ unit: 'pt', format: [w, h], orientation: w > h ? 'landscape' : 'portrait', compress: true })
+  await embedFonts(pdf, fonts)
+  const date = meta.date ?? new Date()
+  pdf.setProperties({
+    title: meta.title || 'WBS',
+    subject: [meta.version && `Version ${meta.version}`, date.toLocaleDateString()].filter(Boolean).join(' · '),
+    author: meta.author ?? '',
+    keywords: ['WBS', meta.version].filter(Boolean).join(', '),
+    creator: 'WBS app'
+  })
+  pdf.setCreationDate(date)
+
+  // svg2pdf measures text through the DOM, so the SVG is attached (out of sight) while it draws
+  const host = document.createElement('div')
+  host.style.cssText = 'position:fixed;left:-100000px;top:0;visibility:hidden'
+  host.appendChild(document.importNode(svgEl, true))
+  document.body.appendChild(host)
+  try {
+    await svg2pdf(host.firstElementChild!, pdf, { x: 0, y: 0, width: w, height: h })
+  } finally {
+    host.remove()
+  }
+  return pdf.output('blob')
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PRINT_SETUP, planTiles, printArea, printDocument, type Drawing, type PrintSetup } from './printPages'
+
+const setup = (over: Partial<PrintSetup> = {}): PrintSetup => ({ ...DEFAULT_PRINT_SETUP, ...over })
+const MM_PER_PX = 25.4 / 96
+
+describe('printArea', () => {
+  it('takes the margins and a branch heading off the page', () => {
+    expect(printArea(setup())).toEqual({ w: 277, h: 190 })
+    expect(printArea(setup({ orientation: 'portrait', paper: 'a3' }), true)).toEqual({ w: 277, h: 391 })
+  })
+})
+
+describe('planTiles', () => {
+  const area = { w: 277, h: 190 }
+
+  it('fits a drawing on one page, centred along the short side', () => {
+    const plan = planTiles(554, 190, setup(), area)
+    expect(plan).toMatchObject({ mm: 0.5, cols: 1, rows: 1 })
+    expect(plan.tiles).toEqual([{ x: 0, y: -95, w: 554, h: 380, row: 0, col: 0 }])
+  })
+
+  it('tiles a poster with the overlap repeated on neighbouring pages', () => {
+    const plan = planTiles(1000, 100, setup({ pagesWide: 2, overlap: 10 }), area)
+    expect(plan.mm).toBeCloseTo((2 * 277 - 10) / 1000)
+    expect([plan.cols, plan.rows]).toEqual([2, 1])
+    const [a, b] = plan.tiles
+    expect(a.x + a.w - b.x).toBeCloseTo(10 / plan.mm)
+    expect(a.x).toBeCloseTo(0)
+    expect(b.x + b.w).toBeCloseTo(1000)
+  })
+
+  it('prints at a fixed scale over as many pages as that takes', () => {
+    const plan = planTiles(2000, 300, setup({ fit: false, scale: 100 }), area)
+    expect(plan.mm).toBeCloseTo(MM_PER_PX)
+    expect([plan.cols, plan.rows]).toEqual([2, 1])
+    expect(planTiles(2000, 300, setup({ fit: false, scale: 50 }), area).cols).toBe(1)
+  })
+
+  it('keeps a drawing that exactly fills two pages on two', () => {
+    const plan = planTiles(2 * 277 - 10, 190, setup({ fit: false, scale: 100 / MM_PER_PX, overlap: 10 }), area)
+    expect([plan.cols, plan.rows]).toEqual([2, 1])
+  })
+})
+
+describe('printDocument', () => {
+  const drawing = (heading?: string): Drawing => ({ x: 0, y: 0, width: 1000, height: 400, markup: '<rect/>', heading })
+  const style = { background: '#fff', fontFamily: 'Inter', textColor: '#111' }
+  const pages = (html: string) => html.match(/<section class="page">/g)?.length ?? 0
+
+  it('prints one page without a footer', () => {
+    const html = printDocument([drawing()], setup(), style)
+    expect(pages(html)).toBe(1)
+    expect(html).not.toContain('class="foot"')
+    expect(html).toContain('@page { size: 297mm 210mm; margin: 0; }')
+  })
+
+  it('numbers poster tiles by row and column', () => {
+    const html = printDocument([drawing()], setup({ pagesWide: 2, pagesTall: 2, cropMarks: true }), { ...style, title: 'Plan' })
+    expect(pages(html)).toBe(4)
+    expect(html).toContain('Page 2 of 4 · row 1 of 2, column 2 of 2')
+    expect(html.match(/class="marks"/g)).toHaveLength(4)
+    // the drawing is defined once and shown through every tile
+    expect(html.match(/<g id="drawing-0">/g)).toHaveLength(1)
+    expect(html.match(/<use href="#drawing-0"\/>/g)).toHaveLength(4)
+  })
+
+  it('keeps markup in theme values out of the stylesheet', () => {
+    const html = printDocument([drawing()], setup(), { background: '</style><script>alert(1)</script>', fontFamily: 'x;}</style>', textColor: 'red' })
+    expect(html).not.toContain('alert(1)')
+    expect(html.match(/<\/style>/g)).toHaveLength(1)
+    expect(html).toContain('font-family: sans-serif; color: red; }')
+  })
+
+  it('heads each branch page with its escaped name', () => {
+    const html = printDocument([drawing('1.1 Design'), drawing('1.2 R&D <new>')], setup(), { ...style, title: 'Plan' })
+    expect(pages(html)).toBe(2)
+    expect(html).toContain('<div class="head">Plan — 1.1 Design</div>')
+    expect(html).toContain('<div class="head">Plan — 1.2 R&amp;D &lt;new&gt;</div>')
+    expect(html).toContain('Page 2 of 2</span>')
+  })
+})
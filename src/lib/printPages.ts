@@ -0,0 +1,139 @@
+// src/lib/printPages.ts
+// Page setup for printing: paper, orientation and scale, and which part of the drawing lands on which page.
+// Drawings larger than a page are tiled into a poster; tiles share an overlap strip for gluing.
+import { cssColor, cssFont } from './themes'
+
+export type PaperSize = 'a4' | 'a3' | 'letter' | 'tabloid'
+export type Orientation = 'portrait' | 'landscape'
+
+/** Portrait width × height in mm */
+export const PAPER_SIZES: Array<[PaperSize, string, number, number]> = [
+  ['a4', 'A4', 210, 297], ['a3', 'A3', 297, 420], ['letter', 'Letter', 215.9, 279.4], ['tabloid', 'Tabloid', 279.4, 431.8]
+]
+
+export type PrintSetup = {
+  paper: PaperSize
+  orientation: Orientation
+  /** true: scaled to fill `pagesWide` × `pagesTall` pages; false: drawn at `scale` percent */
+  fit: boolean
+  pagesWide: number
+  pagesTall: number
+  scale: number
+  /** mm repeated along the edges of neighbouring tiles */
+  overlap: number
+  /** corner marks where each tile is cut */
+  cropMarks: boolean
+  /** each top-level branch on its own page(s), headed with its name */
+  byBranch: boolean
+}
+
+export const DEFAULT_PRINT_SETUP: PrintSetup = {
+  paper: 'a4', orientation: 'landscape', fit: true, pagesWide: 1, pagesTall: 1, scale: 100, overlap: 10, cropMarks: false, byBranch: false
+}
+
+const MARGIN = 10 // mm of white around the printed area; page numbers and crop marks go there
+const HEADER = 9 // mm taken from the printed area by a branch heading
+const MARK = 7.5 // mm crop marks reach out from the corners; headings and page numbers keep clear of them
+const MM_PER_PX = 25.4 / 96
+
+/** One exported SVG, as its viewBox and the markup inside the <svg> element */
+export type Drawing = { x: number; y: number; width: number; height: number; markup: string; heading?: string }
+
+/** A window onto a drawing, in the drawing's own units */
+export type Tile = { x: number; y: number; w: number; h: number; row: number; col: number }
+
+export function pageSize(setup: PrintSetup): { w: number; h: number } {
+  const [, , w, h] = PAPER_SIZES.find(([p]) => p === setup.paper) ?? PAPER_SIZES[0]
+  return setup.orientation === 'landscape' ? { w: h, h: w } : { w, h }
+}
+
+/** The part of the page the drawing is printed on, in mm */
+export function printArea(setup: PrintSetup, headed = false): { w: number; h: number } {
+  const page = pageSize(setup)
+  return { w: page.w - 2 * MARGIN, h: page.h - 2 * MARGIN - (headed ? HEADER : 0) }
+}
+
+/**
+ * Tiles covering a `width` × `height` drawing and the scale they are printed at (mm per drawing unit).
+ * When the drawing is smaller than the pages it spans it is centred on them.
+ */
+export function planTiles(width: number, height: number, setup: PrintSetup, area: { w: number; h: number }) {
+  const overlap = Math.max(0, Math.min(setup.overlap, area.w / 3, area.h / 3))
+  const wide = Math.max(1, Math.round(setup.pagesWide)), tall = Math.max(1, Math.round(setup.pagesTall))
+  const mm = setup.fit
+    ? Math.min((wide * area.w - (wide - 1) * overlap) / width, (tall * area.h - (tall - 1) * overlap) / height)
+    : (Math.max(1, setup.scale) / 100) * MM_PER_PX
+  // pages needed along one side; the small slack keeps an exact fit from spilling onto an extra page
+  const span = (size: number, page: number) => Math.max(1, Math.ceil((size * mm - overlap) / (page - overlap) - 1e-6))
+  const cols = span(width, area.w), rows = span(height, area.h)
+  const stepX = (area.w - overlap) / mm, stepY = (area.h - overlap) / mm
+  const x0 = -((cols - 1) * stepX + area.w / mm - width) / 2
+  const y0 = -((rows - 1) * stepY + area.h / mm - height) / 2
+  const tiles: Tile[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) tiles.push({ x: x0 + col * stepX, y: y0 + row * stepY, w: area.w / mm, h: area.h / mm, row, col })
+  }
+  return { mm, cols, rows, tiles }
+}
+
+const esc = (s: string) => s.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!)
+const n = (v: number) => Number(v.toFixed(3))
+
+/** Two short lines just outside each corner of the printed area */
+function cropMarks(page: { w: number; h: number }, top: number, area: { w: number; h: number }): string {
+  const gap = 1.5, len = MARK - gap, lines: string[] = []
+  for (const x of [MARGIN, MARGIN + area.w]) {
+    for (const y of [top, top + area.h]) {
+      const sx = x === MARGIN ? -1 : 1, sy = y === top ? -1 : 1
+      lines.push(`M${n(x + sx * gap)} ${n(y)}h${sx * len}M${n(x)} ${n(y + sy * gap)}v${sy * len}`)
+    }
+  }
+  return `<svg class="marks" viewBox="0 0 ${n(page.w)} ${n(page.h)}"><path d="${lines.join('')}" stroke="#000" stroke-width="0.2" fill="none"/></svg>`
+}
+
+/**
+ * The print document: one drawing per branch (or just one), each tiled over as many pages as the setup needs.
+ * Every drawing is defined once and shown through a viewBox per tile.
+ */
+export function printDocument(
+  drawings: Drawing[],
+  setup: PrintSetup,
+  { title = '', background, fontFamily, textColor }: { title?: string; background: string; fontFamily: string; textColor: string }
+): string {
+  const page = pageSize(setup)
+  const css = { background: cssColor(background, '#ffffff'), fontFamily: cssFont(fontFamily), textColor: cssColor(textColor, '#0f172a') }
+  const planned = drawings.map(d => {
+    const headed = !!d.heading
+    const area = printArea(setup, headed)
+    return { d, headed, area, ...planTiles(d.width, d.height, setup, area) }
+  })
+  const total = planned.reduce((sum, p) => sum + p.tiles.length, 0)
+  let number = 0
+  const pages = planned.flatMap(({ d, headed, area, tiles, cols, rows }, i) => tiles.map(t => {
+    number++
+    const top = MARGIN + (headed ? HEADER : 0)
+    const where = cols * rows > 1 ? ` · row ${t.row + 1} of ${rows}, column ${t.col + 1} of ${cols}` : ''
+    return [
+      `<section class="page">`,
+      headed ? `<div class="head">${esc(title ? `${title} — ${d.heading}` : d.heading!)}</div>` : '',
+      `<svg class="tile" style="top:${n(top)}mm;width:${n(area.w)}mm;height:${n(area.h)}mm" viewBox="${n(d.x + t.x)} ${n(d.y + t.y)} ${n(t.w)} ${n(t.h)}"><use href="#drawing-${i}"/></svg>`,
+      setup.cropMarks ? cropMarks(page, top, area) : '',
+      total > 1 ? `<div class="foot"><span>${esc(title)}</span><span>Page ${number} of ${total}${where}</span></div>` : '',
+      `</section>`
+    ].join('')
+  }))
+  const defs = drawings.map((d, i) => `<g id="drawing-${i}">${d.markup}</g>`).join('')
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${esc(title || 'WBS')}</title><style>
+    @page { size: ${n(page.w)}mm ${n(page.h)}mm; margin: 0; }
+    html, body { margin: 0; padding: 0; }
+    .page { position: relative; width: ${n(page.w)}mm; height: ${n(page.h)}mm; overflow: hidden; background: #fff; break-after: page; page-break-after: always; }
+    .page:last-of-type { break-after: auto; page-break-after: auto; }
+    .tile { position: absolute; left: ${MARGIN}mm; background: ${css.background}; }
+    .marks { position: absolute; inset: 0; width: 100%; height: 100%; }
+    .head, .foot { position: absolute; left: ${MARGIN}mm; right: ${MARGIN}mm; padding: 0 ${MARK}mm; font-family: ${css.fontFamily}; color: ${css.textColor}; }
+    .head { top: ${MARGIN}mm; font-size: 13pt; font-weight: 600; }
+    .foot { bottom: ${MARGIN / 3}mm; display: flex; justify-content: space-between; font-size: 8pt; color: #64748b; }
+    @media screen { body { background: #e5e7eb; } .page { margin: 8mm auto; box-shadow: 0 2px 8px rgba(0,0,0,0.2); } }
+    * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  </style></head><body><svg width="0" height="0" style="position:absolute"><defs>${defs}</defs></svg>${pages.join('')}</body></html>`
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { parseOutline, type WbsNode } from './parseOutline'
+import { PROJECT_FORMAT, PROJECT_VERSION, parseProject, serializeProject } from './projectFile'
+
+const tree = parseOutline('Project\n  Design {owner: Ann}\n  Build')
+const [design, build] = tree.children
+/** `line` only describes the text just parsed and is not saved */
+const saved = ({ id, label, level, attrs, children }: WbsNode): object => ({ id, label, level, attrs, children: children.map(saved) })
+
+const legacy = {
+  meta: { title: 'Old plan', layoutMode: 'vertical', boxWidth: 160, textMaxWidth: 140 },
+  nodes: [
+    { id: 'p', label: 'Project', pos: { x: 0, y: 0 }, width: 200, wrap: 140 },
+    { id: 'd', label: 'Design', pos: { x: -90, y: 120 }, width: 160, wrap: 100, collapsed: true },
+    { id: 'b', label: 'Build', pos: { x: 90, y: 120 }, width: 240, wrap: 140 }
+  ],
+  edges: [{ source: 'p', target: 'd' }, { source: 'p', target: 'b' }]
+}
+
+describe('parseProject', () => {
+  it('reads back what serializeProject wrote', () => {
+    const layouts = { horizontal: { positions: { [design.id]: { x: 10, y: 20 } }, styles: { [build.id]: { width: 220 } }, collapsed: [], pinned: [design.id] } }
+    const json = serializeProject({
+      title: 'Plan', text: 'Project\n  Design {owner: Ann}\n  Build', tree,
+      settings: { layoutMode: 'horizontal', nodeSpacing: 40, showCodes: true }, layouts, themes: [], rules: []
+    })
+    const file = parseProject(json)
+    expect(file).toMatchObject({ format: PROJECT_FORMAT, version: PROJECT_VERSION, title: 'Plan', layouts, themes: [], rules: [] })
+    expect(file.tree).toEqual(saved(tree))
+    expect(file.settings).toEqual({ layoutMode: 'horizontal', nodeSpacing: 40, showCodes: true })
+  })
+
+  it('migrates the old graph export to a tree with its layout under the saved mode', () => {
+    const file = parseProject(JSON.stringify(legacy))
+    expect(file.title).toBe('Old plan')
+    expect(file.text).toBe('Project\n  Design\n  Build')
+    expect(file.tree.children.map(c => [c.id, c.level])).toEqual([['d', 2], ['b', 2]])
+    expect(file.settings).toMatchObject({ layoutMode: 'vertical', boxWidth: 160 })
+    expect(file.layouts.vertical).toEqual({
+      positions: { p: { x: 0, y: 0 }, d: { x: -90, y: 120 }, b: { x: 90, y: 120 } },
+      // the root's 1.25× width and slider-sized boxes were computed, not set by hand
+      styles: { d: { width: undefined, textMaxWidth: 100 }, b: { width: 240, textMaxWidth: undefined } },
+      collapsed: ['d'],
+      pinned: []
+    })
+    expect(file.layouts.horizontal).toBeUndefined()
+  })
+
+  it('moves a version 2 layout under the mode it was made in', () => {
+    const v2 = {
+      format: PROJECT_FORMAT, version: 2, title: '', text: 'Project', tree,
+      settings: { layoutMode: 'mindmap' }, layout: { positions: { [build.id]: { x: 1, y: 2 } }, collapsed: [build.id] }
+    }
+    expect(parseProject(JSON.stringify(v2)).layouts).toEqual({
+      mindmap: { positions: { [build.id]: { x: 1, y: 2 } }, styles: {}, collapsed: [build.id], pinned: [] }
+    })
+  })
+
+  it('refuses files from a newer version and files that are not projects', () => {
+    expect(() => parseProject(JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_VERSION + 1 }))).toThrow(/newer version/)
+    expect(() => parseProject(JSON.stringify({ format: PROJECT_FORMAT, version: 'x' }))).toThrow(/no valid version/)
+    expect(() => parseProject('{"hello": 1}')).toThrow(/Not a WBS project/)
+    expect(() => parseProject('nope')).toThrow(/not valid JSON/)
+  })
+
+  it('refuses a tree with repeated ids', () => {
+    const bad = { ...tree, children: [design, { ...build, id: design.id }] }
+    const json = serializeProject({ title: '', text: '', tree: bad, settings: {}, layouts: {}, themes: [], rules: [] })
+    expect(() => parseProject(json)).toThrow(`repeats node id "${design.id}"`)
+  })
+
+  it('keeps custom themes with plain colours and font names only', () => {
+    const theme = {
+      id: 't', name: 'Mine', fontFamily: 'Georgia, serif', textColor: '#111', titleColor: '#111', canvas: '#fff', paper: '#fff',
+      edgeColor: 'rgb(1, 2, 3)', edgeWidth: 2, accent: 'blue', levels: [{ fill: '#eee', border: '#000', borderWidth: 1, shape: 'rectangle' }]
+    }
+    const themes = (list: object[]) => parseProject(JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_VERSION, tree, themes: list })).themes
+    expect(themes([theme])).toEqual([theme])
+    expect(themes([{ ...theme, fontFamily: 'x}</style><script>alert(1)</script>' }])[0].fontFamily).toBe('sans-serif')
+    expect(themes([{ ...theme, accent: 'red;}body{display:none' }])).toEqual([])
+  })
+
+  it('drops settings, layout entries, themes and rules it cannot use', () => {
+    const json = JSON.stringify({
+      format: PROJECT_FORMAT, version: PROJECT_VERSION, tree,
+      settings: { layoutMode: 'spiral', fontSize: -3, showGrid: 'yes', print: { pagesWide: 99, paper: 'A9' } },
+      layouts: { horizontal: { positions: { ghost: { x: 0, y: 0 }, [design.id]: { x: 'a', y: 0 } }, collapsed: ['ghost'], pinned: ['ghost'] } },
+      themes: [{ id: 't', name: 'Bad', levels: [{ fill: 'url(x)', border: '#000', borderWidth: 1, shape: 'round-rectangle' }] }],
+      rules: [{ id: 'r 1', field: 'owner', op: 'is', value: 'x' }, { id: 'r2', field: 'owner', op: 'near', value: 'x' }]
+    })
+    const file = parseProject(json)
+    expect(file.settings.layoutMode).toBeUndefined()
+    expect(file.settings.fontSize).toBeUndefined()
+    expect(file.settings.showGrid).toBeUndefined()
+    expect(file.settings.print).toMatchObject({ pagesWide: 20, paper: 'a4' })
+    expect(file.layouts.horizontal).toEqual({ positions: {}, styles: {}, collapsed: [], pinned: [] })
+    expect(file.themes).toEqual([])
+    expect(file.rules).toEqual([])
+  })
+})
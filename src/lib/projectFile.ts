@@ -0,0 +1,349 @@
+// src/lib/projectFile.ts
+// Versioned, self-contained project file: outline, tree, layout and every toolbar setting.
+import type { ChildOrder, LayoutMode } from '../components/Diagram'
+import { ATTRIBUTE_KEYS, setAttribute, type WbsAttributes } from './attributes'
+import { RULE_FIELDS, RULE_OPERATORS, type FormatRule, type RuleField, type RuleOperator } from './formatRules'
+import { DEFAULT_NUMBERING, type NumberingScheme, type NumberStyle } from './numbering'
+import { ROOT_ID, type WbsNode } from './parseOutline'
+import { DEFAULT_PRINT_SETUP, PAPER_SIZES, type PrintSetup } from './printPages'
+import type { TitleBlock } from './titleBlock'
+import { BOX_SHAPES, isColor, isFontFamily, type BoxShape, type LevelStyle, type Theme } from './themes'
+import { toOutline } from './wbs'
+
+export const PROJECT_FORMAT = 'wbs-project'
+/** Bump on every incompatible change and add the step to MIGRATIONS */
+export const PROJECT_VERSION = 3
+
+type Pos = { x: number; y: number }
+
+/** Per-node overrides set on the canvas (auto-fit, shift+double-click reset) */
+export type NodeStyle = { width?: number; textMaxWidth?: number }
+
+export type ProjectLayout = {
+  positions: Record<string, Pos>
+  styles: Record<string, NodeStyle>
+  /** ids of collapsed parents */
+  collapsed: string[]
+  /** ids of boxes moved by hand; a new spacing or sibling order lays out only the others again */
+  pinned: string[]
+}
+
+/** Each layout mode keeps its own arrangement; modes never opened have none */
+export type ProjectLayouts = Partial<Record<LayoutMode, ProjectLayout>>
+
+export type ProjectSettings = {
+  layoutMode: LayoutMode
+  nodeSpacing: number
+  rankSpacing: number
+  childOrder: ChildOrder
+  fontSize: number
+  boxWidth: number
+  boxHeight: number
+  textMaxWidth: number
+  showGrid: boolean
+  gridSize: number
+  snapToGrid: boolean
+  showTotals: boolean
+  showCodes: boolean
+  numbering: NumberingScheme
+  /** id of a preset or of one of the document's own themes */
+  theme: string
+  /** legend of the formatting rules, on the canvas and in image exports */
+  showLegend: boolean
+  /** page setup for printing */
+  print: PrintSetup
+  /** version, author, status date, marking and logo around image exports and print */
+  titleBlock: TitleBlock
+}
+
+export type ProjectFile = {
+  format: typeof PROJECT_FORMAT
+  version: number
+  savedAt: string
+  title: string
+  /** outline text as typed, so its indentation style survives */
+  text: string
+  /** tree with the ids that layout and styles are keyed by */
+  tree: WbsNode
+  /** settings missing from older files are left to the app's current values */
+  settings: Partial<ProjectSettings>
+  layouts: ProjectLayouts
+  /** custom themes made for this document */
+  themes: Theme[]
+  /** conditional formatting, applied in order (later rules win) */
+  rules: FormatRule[]
+}
+
+/* ============================================================
+   WRITE
+   ============================================================ */
+
+export function serializeProject(p: Omit<ProjectFile, 'format' | 'version' | 'savedAt'>): string {
+  const file: ProjectFile = { format: PROJECT_FORMAT, version: PROJECT_VERSION, savedAt: new Date().toISOString(), ...p }
+  return JSON.stringify(file, null, 2)
+}
+
+/* ============================================================
+   READ: version check → migrations → validation
+   ============================================================ */
+
+type Json = Record<string, unknown>
+const isObject = (v: unknown): v is Json => !!v && typeof v === 'object' && !Array.isArray(v)
+const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : undefined)
+const LAYOUT_MODES: LayoutMode[] = ['horizontal', 'vertical', 'mindmap', 'elk-layered', 'elk-mrtree', 'org-chart']
+
+/**
+ * Version 1: the diagram's old JSON export, `{ meta, nodes, edges }`, with the
+ * tree only implied by the edges and widths recorded for every node.
+ */
+function fromLegacyGraph(data: Json): Json {
+  const meta = isObject(data.meta) ? data.meta : {}
+  const rawNodes = Array.isArray(data.nodes) ? data.nodes.filter(isObject) : []
+  const rawEdges = Array.isArray(data.edges) ? data.edges.filter(isObject) : []
+
+  const byId = new Map<string, WbsNode>()
+  const positions: Record<string, Pos> = {}
+  const styles: Record<string, NodeStyle> = {}
+  const collapsed: string[] = []
+  for (const n of rawNodes) {
+    const id = String(n.id ?? '')
+    if (!id || byId.has(id)) continue
+    const node: WbsNode = { id, label: String(n.label ?? ''), level: 0, children: [] }
+    if (isObject(n.attrs)) node.attrs = n.attrs as WbsAttributes
+    byId.set(id, node)
+    if (isObject(n.pos) && num(n.pos.x) !== undefined && num(n.pos.y) !== undefined) positions[id] = { x: n.pos.x as number, y: n.pos.y as number }
+    // old files stored computed widths; only values that differ from the sliders (1.25× on the root box) were real overrides
+    const computed = (v: unknown, slider: unknown) => num(slider) !== undefined && (v === slider || v === (slider as number) * 1.25)
+    const width = computed(n.width, meta.boxWidth) ? undefined : num(n.width)
+    const wrap = computed(n.wrap, meta.textMaxWidth) ? undefined : num(n.wrap)
+    if (width !== undefined || wrap !== undefined) styles[id] = { width, textMaxWidth: wrap }
+    if (n.collapsed) collapsed.push(id)
+  }
+
+  const hasParent = new Set<string>()
+  for (const e of rawEdges) {
+    const parent = byId.get(String(e.source)), child = byId.get(String(e.target))
+    if (!parent || !child || hasParent.has(child.id) || child === parent) continue
+    parent.children.push(child)
+    hasParent.add(child.id)
+  }
+  const tops = [...byId.values()].filter(n => !hasParent.has(n.id))
+  if (!tops.length) throw new Error('The file has no tasks')
+  const tree: WbsNode = tops.length === 1 ? tops[0] : { id: ROOT_ID, label: 'Project', level: 0, children: tops }
+  const relevel = (n: WbsNode, lvl: number) => { n.level = lvl; n.children.forEach(c => relevel(c, lvl + 1)) }
+  relevel(tree, tree.id === ROOT_ID ? 0 : 1)
+
+  const { title, ...settings } = meta
+  return {
+    format: PROJECT_FORMAT,
+    version: 2,
+    savedAt: '',
+    title: typeof title === 'string' ? title : '',
+    text: toOutline(tree, { format: 'indent', indent: '  ' }),
+    tree,
+    settings,
+    layout: { positions, styles, collapsed, pinned: [] }
+  }
+}
+
+/** Version 2: one `layout`, made in whichever layout mode the file was saved in */
+function toLayoutPerMode(data: Json): Json {
+  const { layout, ...rest } = data
+  const settings = isObject(data.settings) ? data.settings : {}
+  const mode = LAYOUT_MODES.includes(settings.layoutMode as LayoutMode) ? settings.layoutMode as LayoutMode : 'horizontal'
+  return { ...rest, version: 3, layouts: isObject(layout) ? { [mode]: layout } : {} }
+}
+
+/** MIGRATIONS[v] turns a version-v file into a version v+1 file */
+const MIGRATIONS: Record<number, (data: Json) => Json> = {
+  1: fromLegacyGraph,
+  2: toLayoutPerMode
+}
+
+function fileVersion(data: Json): number {
+  if (data.format === PROJECT_FORMAT) {
+    const v = num(data.version)
+    if (v === undefined || v < 1 || !Number.isInteger(v)) throw new Error('Project file has no valid version')
+    return v
+  }
+  if (Array.isArray(data.nodes) && Array.isArray(data.edges)) return 1
+  throw new Error('Not a WBS project file')
+}
+
+function readTree(v: unknown, seen: Set<string>): WbsNode {
+  if (!isObject(v) || typeof v.id !== 'string' || typeof v.label !== 'string' || !Array.isArray(v.children)) {
+    throw new Error('Project file has a malformed tree')
+  }
+  if (seen.has(v.id)) throw new Error(`Project file repeats node id "${v.id}"`)
+  seen.add(v.id)
+  const node: WbsNode = { id: v.id, label: v.label, level: num(v.level) ?? 0, children: v.children.map(c => readTree(c, seen)) }
+  if (typeof v.code === 'string') node.code = v.code
+  if (isObject(v.attrs)) {
+    const attrs: WbsAttributes = {}
+    for (const k of ATTRIBUTE_KEYS) if (v.attrs[k] !== undefined) setAttribute(attrs, k, v.attrs[k])
+    if (Object.keys(attrs).length) node.attrs = attrs
+  }
+  return node
+}
+
+const CHILD_ORDERS: ChildOrder[] = ['outline', 'alpha', 'size']
+const NUMBER_STYLES: NumberStyle[] = ['decimal', 'upper-alpha', 'lower-alpha', 'upper-roman', 'lower-roman']
+
+/** Keeps only well-typed settings, so a hand-edited file can't put the app in a broken state */
+function readSettings(v: unknown): Partial<ProjectSettings> {
+  const s = isObject(v) ? v : {}
+  const out: Partial<ProjectSettings> = {}
+  if (LAYOUT_MODES.includes(s.layoutMode as LayoutMode)) out.layoutMode = s.layoutMode as LayoutMode
+  if (CHILD_ORDERS.includes(s.childOrder as ChildOrder)) out.childOrder = s.childOrder as ChildOrder
+  for (const k of ['nodeSpacing', 'rankSpacing', 'fontSize', 'boxWidth', 'boxHeight', 'textMaxWidth', 'gridSize'] as const) {
+    const n = num(s[k]); if (n !== undefined && n > 0) out[k] = n
+  }
+  for (const k of ['showGrid', 'snapToGrid', 'showTotals', 'showCodes', 'showLegend'] as const) {
+    if (typeof s[k] === 'boolean') out[k] = s[k] as boolean
+  }
+  if (isObject(s.numbering)) {
+    const n = s.numbering
+    const styles = Array.isArray(n.styles) ? n.styles.filter((x): x is NumberStyle => NUMBER_STYLES.includes(x as NumberStyle)) : []
+    out.numbering = {
+      start: num(n.start) ?? DEFAULT_NUMBERING.start,
+      separator: typeof n.separator === 'string' ? n.separator : DEFAULT_NUMBERING.separator,
+      numberRoot: typeof n.numberRoot === 'boolean' ? n.numberRoot : DEFAULT_NUMBERING.numberRoot,
+      styles: styles.length ? styles : DEFAULT_NUMBERING.styles
+    }
+  }
+  if (typeof s.theme === 'string') out.theme = s.theme
+  if (isObject(s.print)) {
+    const p = s.print, d = DEFAULT_PRINT_SETUP
+    const whole = (v: unknown, min: number, max: number, fallback: number) => {
+      const n = num(v); return n === undefined ? fallback : Math.min(max, Math.max(min, Math.round(n)))
+    }
+    out.print = {
+      paper: PAPER_SIZES.some(([k]) => k === p.paper) ? p.paper as PrintSetup['paper'] : d.paper,
+      orientation: p.orientation === 'portrait' || p.orientation === 'landscape' ? p.orientation : d.orientation,
+      fit: typeof p.fit === 'boolean' ? p.fit : d.fit,
+      pagesWide: whole(p.pagesWide, 1, 20, d.pagesWide),
+      pagesTall: whole(p.pagesTall, 1, 20, d.pagesTall),
+      scale: whole(p.scale, 5, 400, d.scale),
+      overlap: whole(p.overlap, 0, 30, d.overlap),
+      cropMarks: typeof p.cropMarks === 'boolean' ? p.cropMarks : d.cropMarks,
+      byBranch: typeof p.byBranch === 'boolean' ? p.byBranch : d.byBranch
+    }
+  }
+  if (isObject(s.titleBlock)) {
+    const b = s.titleBlock
+    const text = (v: unknown) => (typeof v === 'string' ? v : '')
+    out.titleBlock = { version: text(b.version), author: text(b.author), statusDate: text(b.statusDate), marking: text(b.marking) }
+    const logo = b.logo
+    // only embedded images: a file must not make exports fetch from elsewhere
+    if (isObject(logo) && typeof logo.src === 'string' && /^data:image\/(png|jpeg);base64,/.test(logo.src)) {
+      const width = num(logo.width), height = num(logo.height)
+      if (width && height && width > 0 && height > 0) out.titleBlock.logo = { src: logo.src, width, height }
+    }
+  }
+  return out
+}
+
+const color = (v: unknown) => (typeof v === 'string' && isColor(v) ? v.trim() : undefined)
+
+/** A custom theme is dropped whole when any of its colours or levels is unusable */
+function readTheme(v: unknown): Theme | null {
+  if (!isObject(v) || typeof v.id !== 'string' || typeof v.name !== 'string' || !Array.isArray(v.levels)) return null
+  const levels: LevelStyle[] = []
+  for (const l of v.levels) {
+    if (!isObject(l)) return null
+    const fill = color(l.fill), border = color(l.border), borderWidth = num(l.borderWidth)
+    if (!fill || !border || borderWidth === undefined || !BOX_SHAPES.includes(l.shape as BoxShape)) return null
+    const level: LevelStyle = { fill, border, borderWidth, shape: l.shape as BoxShape }
+    if (color(l.text)) level.text = color(l.text)
+    levels.push(level)
+  }
+  const textColor = color(v.textColor), titleColor = color(v.titleColor), canvas = color(v.canvas), paper = color(v.paper)
+  const edgeColor = color(v.edgeColor), accent = color(v.accent), edgeWidth = num(v.edgeWidth)
+  if (!levels.length || !textColor || !titleColor || !canvas || !paper || !edgeColor || !accent || edgeWidth === undefined) return null
+  // the font goes into exported stylesheets as it is
+  const fontFamily = typeof v.fontFamily === 'string' && isFontFamily(v.fontFamily) ? v.fontFamily.trim() : 'sans-serif'
+  return { id: v.id, name: v.name, fontFamily, textColor, titleColor, canvas, paper, edgeColor, edgeWidth, accent, levels }
+}
+
+function readThemes(v: unknown): Theme[] {
+  const list = Array.isArray(v) ? v.map(readTheme).filter((t): t is Theme => !!t) : []
+  return list.filter((t, i) => list.findIndex(x => x.id === t.id) === i)
+}
+
+function readRule(v: unknown): FormatRule | null {
+  if (!isObject(v) || typeof v.id !== 'string' || !/^[\w-]+$/.test(v.id)) return null
+  if (!RULE_FIELDS.some(([f]) => f === v.field) || !RULE_OPERATORS.some(([o]) => o === v.op)) return null
+  const rule: FormatRule = {
+    id: v.id,
+    field: v.field as RuleField,
+    op: v.op as RuleOperator,
+    value: typeof v.value === 'string' ? v.value : '',
+    label: typeof v.label === 'string' ? v.label : ''
+  }
+  for (const k of ['fill', 'border', 'text'] as const) { const c = color(v[k]); if (c) rule[k] = c }
+  return rule
+}
+
+function readRules(v: unknown): FormatRule[] {
+  const list = Array.isArray(v) ? v.map(readRule).filter((r): r is FormatRule => !!r) : []
+  return list.filter((r, i) => list.findIndex(x => x.id === r.id) === i)
+}
+
+function readLayout(v: unknown, ids: Set<string>): ProjectLayout {
+  const l = isObject(v) ? v : {}
+  const positions: Record<string, Pos> = {}
+  const styles: Record<string, NodeStyle> = {}
+  if (isObject(l.positions)) {
+    for (const [id, p] of Object.entries(l.positions)) {
+      if (ids.has(id) && isObject(p) && num(p.x) !== undefined && num(p.y) !== undefined) positions[id] = { x: p.x as number, y: p.y as number }
+    }
+  }
+  if (isObject(l.styles)) {
+    for (const [id, st] of Object.entries(l.styles)) {
+      if (!ids.has(id) || !isObject(st)) continue
+      const width = num(st.width), textMaxWidth = num(st.textMaxWidth)
+      if (width !== undefined || textMaxWidth !== undefined) styles[id] = { width, textMaxWidth }
+    }
+  }
+  const known = (list: unknown) => (Array.isArray(list) ? list.filter((id): id is string => typeof id === 'string' && ids.has(id)) : [])
+  return { positions, styles, collapsed: known(l.collapsed), pinned: known(l.pinned) }
+}
+
+function readLayouts(v: unknown, ids: Set<string>): ProjectLayouts {
+  const l = isObject(v) ? v : {}
+  const out: ProjectLayouts = {}
+  for (const mode of LAYOUT_MODES) if (isObject(l[mode])) out[mode] = readLayout(l[mode], ids)
+  return out
+}
+
+/**
+ * Parse a project file of any known version. Older versions are migrated step
+ * by step; files from a newer version of the app are refused rather than half-read.
+ */
+export function parseProject(json: string): ProjectFile {
+  let data: unknown
+  try { data = JSON.parse(json) } catch { throw new Error('The file is not valid JSON') }
+  if (!isObject(data)) throw new Error('Not a WBS project file')
+
+  let version = fileVersion(data)
+  if (version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of the app (file version ${version}, supported up to ${PROJECT_VERSION})`)
+  }
+  for (; version < PROJECT_VERSION; version++) data = MIGRATIONS[version](data as Json)
+  const file = data as Json
+
+  const ids = new Set<string>()
+  const tree = readTree(file.tree, ids)
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof file.savedAt === 'string' ? file.savedAt : '',
+    title: typeof file.title === 'string' ? file.title : '',
+    text: typeof file.text === 'string' ? file.text : toOutline(tree, { format: 'indent', indent: '  ' }),
+    tree,
+    settings: readSettings(file.settings),
+    layouts: readLayouts(file.layouts, ids),
+    themes: readThemes(file.themes),
+    rules: readRules(file.rules)
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { parseOutline } from './parseOutline'
+import { computeRollup, describeWarning, formatTotals } from './rollup'
+
+const totalsOf = (text: string) => {
+  const root = parseOutline(text)
+  return { root, ...computeRollup(root) }
+}
+
+describe('computeRollup', () => {
+  it('sums effort and cost from the leaves up', () => {
+    const { root, totals } = totalsOf('P\n  A\n    A1 {effort: 2d; cost: 100}\n    A2 {effort: 3d}\n  B {cost: 50}')
+    expect(totals.get(root.id)).toMatchObject({ effort: 5, cost: 150 })
+    expect(totals.get(root.children[0].id)).toMatchObject({ effort: 5, cost: 100 })
+  })
+
+  it('weights percent complete by effort', () => {
+    const { root, totals } = totalsOf('P\n  A {effort: 3d; complete: 100%}\n  B {effort: 1d; complete: 0%}')
+    expect(totals.get(root.id)?.percentComplete).toBe(75)
+  })
+
+  it('counts status done as 100%', () => {
+    const { root, totals } = totalsOf('P\n  A {status: done}\n  B {complete: 50%}')
+    expect(totals.get(root.id)?.percentComplete).toBe(75)
+  })
+
+  it('leaves children without progress out of the percent', () => {
+    const base = totalsOf('P\n  A {effort: 2d; complete: 50%}\n  B {effort: 2d; complete: 100%}')
+    const withEffortOnly = totalsOf('P\n  A {effort: 2d; complete: 50%}\n  B {effort: 2d; complete: 100%}\n  C {effort: 4d}')
+    const withEmpty = totalsOf('P\n  A {effort: 2d; complete: 50%}\n  B {effort: 2d; complete: 100%}\n  C')
+    expect(base.totals.get(base.root.id)?.percentComplete).toBe(75)
+    expect(withEffortOnly.totals.get(withEffortOnly.root.id)?.percentComplete).toBe(75)
+    expect(withEmpty.totals.get(withEmpty.root.id)?.percentComplete).toBe(75)
+  })
+
+  it('falls back to a parent estimate that is not broken down', () => {
+    const { root, totals, warnings } = totalsOf('P {effort: 10d}\n  A\n  B')
+    expect(totals.get(root.id)?.effort).toBe(10)
+    expect(warnings).toEqual([])
+  })
+
+  it('warns when a parent figure disagrees with its children', () => {
+    const { warnings } = totalsOf('P {effort: 10d; complete: 10%}\n  A {effort: 4d; complete: 50%}\n  B {effort: 4d}')
+    expect(warnings.map(w => w.field)).toEqual(['effort', 'percentComplete'])
+    expect(describeWarning(warnings[0])).toBe('"P": entered effort 10 ≠ children 8')
+    expect(describeWarning(warnings[1])).toBe('"P": entered % complete 10 ≠ children 50 (children that report progress)')
+  })
+})
+
+describe('formatTotals', () => {
+  it('writes one short line', () => {
+    expect(formatTotals({ effort: 12.5, cost: 3400, percentComplete: 45 })).toBe('Σ 12.5d · 3,400 · 45%')
+    expect(formatTotals({})).toBe('')
+  })
+})
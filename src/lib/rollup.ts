@@ -0,0 +1,104 @@
+// src/lib/rollup.ts
+import type { WbsNode } from './parseOutline'
+
+/** Values rolled up from the leaves; undefined when nothing below carries the figure */
+export type RollupTotals = {
+  effort?: number
+  cost?: number
+  /**
+   * over the children that report progress (a % or status done); effort-weighted
+   * when all of those carry an effort, otherwise a plain average
+   */
+  percentComplete?: number
+}
+
+export type RollupField = keyof RollupTotals
+
+/** A parent whose hand-entered value disagrees with the sum of its children */
+export type RollupWarning = {
+  id: string
+  label: string
+  field: RollupField
+  own: number
+  computed: number
+}
+
+export type RollupResult = {
+  totals: Map<string, RollupTotals>
+  warnings: RollupWarning[]
+}
+
+const differs = (a: number, b: number, tolerance: number) => Math.abs(a - b) > tolerance
+
+/**
+ * Bottom-up totals for every node. Leaves contribute their own attributes;
+ * parents sum their children and only fall back to their own value when no
+ * child carries that figure (a top-down estimate that has not been broken down yet).
+ */
+export function computeRollup(root: WbsNode): RollupResult {
+  const totals = new Map<string, RollupTotals>()
+  const warnings: RollupWarning[] = []
+
+  const visit = (n: WbsNode): RollupTotals => {
+    const own: RollupTotals = {
+      effort: n.attrs?.effort,
+      cost: n.attrs?.cost,
+      percentComplete: n.attrs?.percentComplete ?? (n.attrs?.status === 'done' ? 100 : undefined)
+    }
+    if (!n.children.length) { totals.set(n.id, own); return own }
+
+    const kids = n.children.map(visit)
+    const sum = (field: 'effort' | 'cost') => {
+      const vals = kids.map(k => k[field]).filter((v): v is number => v !== undefined)
+      return vals.length ? vals.reduce((a, b) => a + b, 0) : undefined
+    }
+    const out: RollupTotals = { effort: sum('effort'), cost: sum('cost') }
+
+    // percent complete: only children that report progress count, whatever else they carry
+    const counted = kids.filter(k => k.percentComplete !== undefined)
+    if (counted.length) {
+      const weighted = counted.every(k => k.effort !== undefined) && counted.some(k => (k.effort ?? 0) > 0)
+      let num = 0, den = 0
+      for (const k of counted) {
+        const w = weighted ? k.effort! : 1
+        num += k.percentComplete! * w; den += w
+      }
+      out.percentComplete = den ? Math.round((num / den) * 10) / 10 : undefined
+    }
+
+    const check = (field: RollupField, tolerance: number) => {
+      const mine = own[field], computed = out[field]
+      if (mine === undefined) return
+      if (computed === undefined) { out[field] = mine; return }
+      if (differs(mine, computed, tolerance)) warnings.push({ id: n.id, label: n.label, field, own: mine, computed })
+    }
+    check('effort', 0.01)
+    check('cost', 0.01)
+    check('percentComplete', 0.5)
+
+    totals.set(n.id, out)
+    return out
+  }
+  visit(root)
+  return { totals, warnings }
+}
+
+const num = (v: number, digits = 1) => v.toLocaleString('en-US', { maximumFractionDigits: digits })
+
+/** Short one-line summary for a box, e.g. "Σ 12.5d · 3,400 · 45%" ('' when empty) */
+export function formatTotals(t?: RollupTotals): string {
+  if (!t) return ''
+  const parts: string[] = []
+  if (t.effort !== undefined) parts.push(`${num(t.effort)}d`)
+  if (t.cost !== undefined) parts.push(num(t.cost, 2))
+  if (t.percentComplete !== undefined) parts.push(`${num(t.percentComplete, 0)}%`)
+  return parts.length ? `Σ ${parts.join(' · ')}` : ''
+}
+
+const FIELD_LABEL: Record<RollupField, string> = { effort: 'effort', cost: 'cost', percentComplete: '% complete' }
+
+/** Children without a % are left out of the % they are compared against, which the message says */
+export function describeWarning(w: RollupWarning): string {
+  const basis = w.field === 'percentComplete' ? ' (children that report progress)' : ''
+  return `"${w.label}": entered ${FIELD_LABEL[w.field]} ${num(w.own, 2)} ≠ children ${num(w.computed, 2)}${basis}`
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { copyTheme, DEFAULT_THEME, levelStyle, resolveTheme, THEME_PRESETS } from './themes'
+
+describe('themes', () => {
+  it('finds custom themes first and falls back to the default', () => {
+    const mine = copyTheme(THEME_PRESETS[1], 'Mine')
+    expect(resolveTheme(mine.id, [mine])).toBe(mine)
+    expect(resolveTheme(THEME_PRESETS[1].id, [mine])).toBe(THEME_PRESETS[1])
+    expect(resolveTheme('deleted', [mine])).toBe(DEFAULT_THEME)
+  })
+
+  it('copies levels so editing the copy leaves the original alone', () => {
+    const copy = copyTheme(DEFAULT_THEME, '  ')
+    copy.levels[0].fill = '#000000'
+    expect(copy.name).toBe(`${DEFAULT_THEME.name} (copy)`)
+    expect(copy.id).not.toBe(DEFAULT_THEME.id)
+    expect(DEFAULT_THEME.levels[0].fill).not.toBe('#000000')
+  })
+
+  it('repeats the last level style for deeper levels', () => {
+    const last = DEFAULT_THEME.levels[DEFAULT_THEME.levels.length - 1]
+    expect(levelStyle(DEFAULT_THEME, 0)).toBe(DEFAULT_THEME.levels[0])
+    expect(levelStyle(DEFAULT_THEME, 40)).toBe(last)
+  })
+})
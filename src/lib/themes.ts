@@ -0,0 +1,169 @@
+// src/lib/themes.ts
+// Named looks for the diagram: colours, fonts, lines and per-level box rules, shared by the canvas and every export.
+
+export type BoxShape = 'round-rectangle' | 'rectangle' | 'cut-rectangle' | 'ellipse' | 'hexagon' | 'barrel'
+
+export const BOX_SHAPES: BoxShape[] = ['round-rectangle', 'rectangle', 'cut-rectangle', 'ellipse', 'hexagon', 'barrel']
+
+export type LevelStyle = {
+  fill: string
+  border: string
+  borderWidth: number
+  shape: BoxShape
+  /** label colour, when it differs from the theme's */
+  text?: string
+}
+
+export type Theme = {
+  id: string
+  name: string
+  fontFamily: string
+  textColor: string
+  titleColor: string
+  /** behind the boxes while editing */
+  canvas: string
+  /** behind the boxes in PNG, SVG and print */
+  paper: string
+  edgeColor: string
+  edgeWidth: number
+  /** hover and selection */
+  accent: string
+  /** from the root down; the last entry repeats for deeper levels */
+  levels: LevelStyle[]
+}
+
+export const FONT_CHOICES: Record<string, string> = {
+  Inter: 'Inter, system-ui, -apple-system, Segoe UI, Roboto, Arial, sans-serif',
+  'Segoe UI': 'Segoe UI, Roboto, Helvetica, Arial, sans-serif',
+  Georgia: 'Georgia, Times New Roman, serif',
+  Monospace: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace'
+}
+
+const COLOR = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%]+\)|[a-z]+)$/i
+const FONT_FAMILY = /^[\w\s,-]*\w[\w\s,-]*$/
+
+/** A hex, rgb(), hsl() or named colour, with nothing that could end a CSS declaration */
+export const isColor = (v: string) => COLOR.test(v.trim())
+/** Font names separated by commas (as in FONT_CHOICES), without quotes or punctuation */
+export const isFontFamily = (v: string) => FONT_FAMILY.test(v)
+
+/** Theme values written into a stylesheet: anything but a plain colour or font list is replaced */
+export const cssColor = (v: string, fallback: string) => (isColor(v) ? v.trim() : fallback)
+export const cssFont = (v: string) => (isFontFamily(v) ? v.trim() : 'sans-serif')
+
+const level = (fill: string, border: string, borderWidth = 1, shape: BoxShape = 'round-rectangle', text?: string): LevelStyle =>
+  text ? { fill, border, borderWidth, shape, text } : { fill, border, borderWidth, shape }
+
+/** Built-in themes; documents can add their own (see projectFile.ts) */
+export const THEME_PRESETS: Theme[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    fontFamily: FONT_CHOICES.Inter,
+    textColor: '#0f172a',
+    titleColor: '#0f172a',
+    canvas: '#f7f7f7',
+    paper: '#ffffff',
+    edgeColor: '#94a3b8',
+    edgeWidth: 2.5,
+    accent: '#2563eb',
+    levels: [
+      level('#eef2ff', '#94a3b8', 2),
+      level('#dbeafe', '#93c5fd'),
+      level('#dcfce7', '#86efac'),
+      level('#fef9c3', '#fde68a'),
+      level('#fee2e2', '#fca5a5'),
+      level('#f1f5f9', '#cbd5e1')
+    ]
+  },
+  {
+    id: 'corporate',
+    name: 'Corporate',
+    fontFamily: FONT_CHOICES['Segoe UI'],
+    textColor: '#1f2937',
+    titleColor: '#1e3a5f',
+    canvas: '#f4f6f8',
+    paper: '#ffffff',
+    edgeColor: '#64748b',
+    edgeWidth: 2,
+    accent: '#0ea5e9',
+    levels: [
+      level('#1e3a5f', '#1e3a5f', 2, 'rectangle', '#ffffff'),
+      level('#2f5d8a', '#2f5d8a', 1, 'rectangle', '#ffffff'),
+      level('#dbe4f0', '#2f5d8a', 1, 'rectangle'),
+      level('#ffffff', '#94a3b8', 1, 'rectangle')
+    ]
+  },
+  {
+    id: 'high-contrast',
+    name: 'High contrast',
+    fontFamily: FONT_CHOICES.Inter,
+    textColor: '#000000',
+    titleColor: '#000000',
+    canvas: '#ffffff',
+    paper: '#ffffff',
+    edgeColor: '#000000',
+    edgeWidth: 3,
+    accent: '#d97706',
+    levels: [
+      level('#000000', '#000000', 3, 'rectangle', '#ffffff'),
+      level('#ffff00', '#000000', 3, 'rectangle'),
+      level('#ffffff', '#000000', 3, 'rectangle')
+    ]
+  },
+  {
+    id: 'dark',
+    name: 'Dark',
+    fontFamily: FONT_CHOICES.Inter,
+    textColor: '#e2e8f0',
+    titleColor: '#f8fafc',
+    canvas: '#0f172a',
+    paper: '#0f172a',
+    edgeColor: '#64748b',
+    edgeWidth: 2.5,
+    accent: '#38bdf8',
+    levels: [
+      level('#312e81', '#818cf8', 2),
+      level('#1e3a8a', '#60a5fa'),
+      level('#14532d', '#4ade80'),
+      level('#713f12', '#facc15'),
+      level('#7f1d1d', '#f87171'),
+      level('#1e293b', '#94a3b8')
+    ]
+  },
+  {
+    id: 'print-mono',
+    name: 'Print (monochrome)',
+    fontFamily: FONT_CHOICES.Georgia,
+    textColor: '#000000',
+    titleColor: '#000000',
+    canvas: '#ffffff',
+    paper: '#ffffff',
+    edgeColor: '#000000',
+    edgeWidth: 1.5,
+    accent: '#525252',
+    levels: [
+      level('#d4d4d4', '#000000', 2, 'rectangle'),
+      level('#ffffff', '#000000', 1.5, 'rectangle'),
+      level('#ffffff', '#525252', 1, 'rectangle')
+    ]
+  }
+]
+
+export const DEFAULT_THEME = THEME_PRESETS[0]
+
+export const isPreset = (id: string) => THEME_PRESETS.some(t => t.id === id)
+
+/** The document's theme by id; an unknown id (deleted custom theme) falls back to the default */
+export const resolveTheme = (id: string | undefined, custom: Theme[] = []): Theme =>
+  custom.find(t => t.id === id) ?? THEME_PRESETS.find(t => t.id === id) ?? DEFAULT_THEME
+
+export const levelStyle = (theme: Theme, lvl: number): LevelStyle => theme.levels[Math.min(Math.max(0, lvl), theme.levels.length - 1)]
+
+/** Editable copy of a theme under a new id */
+export const copyTheme = (theme: Theme, name: string): Theme => ({
+  ...theme,
+  id: `t_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name: name.trim() || `${theme.name} (copy)`,
+  levels: theme.levels.map(l => ({ ...l }))
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_THEME } from './themes'
+import { blockDetails, EMPTY_TITLE_BLOCK, fitLogo, layoutTitleBlock, LEGEND_ROW, type TitleBlock } from './titleBlock'
+
+const theme = DEFAULT_THEME
+const block = (over: Partial<TitleBlock> = {}): TitleBlock => ({ ...EMPTY_TITLE_BLOCK, ...over })
+
+describe('blockDetails', () => {
+  it('joins the filled-in fields', () => {
+    expect(blockDetails(block({ version: ' 2 ', author: 'Ann', statusDate: '2026-03-31' }))).toBe('Version 2 · Author: Ann · Status date: 2026-03-31')
+    expect(blockDetails(block({ author: 'Ann' }))).toBe('Author: Ann')
+    expect(blockDetails(block())).toBe('')
+  })
+})
+
+describe('fitLogo', () => {
+  it('shrinks to the logo height or width limit, never enlarges', () => {
+    expect(fitLogo(200, 100)).toEqual({ width: 96, height: 48 })
+    expect(fitLogo(600, 60)).toEqual({ width: 180, height: 18 })
+    expect(fitLogo(40, 20)).toEqual({ width: 40, height: 20 })
+  })
+})
+
+describe('layoutTitleBlock', () => {
+  it('leaves the diagram in its margins when there is nothing to add', () => {
+    expect(layoutTitleBlock({ block: block(), legend: [], theme }, 400, 300, 80)).toEqual({ left: 80, top: 80, width: 560, height: 460, items: [] })
+  })
+
+  it('puts title and marking above, details and marking below', () => {
+    const layout = layoutTitleBlock({ title: ' Plan ', block: block({ version: 'A', marking: 'Confidential' }), legend: [], theme }, 400, 300, 80)
+    const texts = layout.items.map(i => (i.kind === 'text' ? [i.text, i.anchor, i.y] : null))
+    expect(texts).toEqual([
+      ['Plan', 'middle', 36],
+      ['CONFIDENTIAL', 'end', 30],
+      ['Version A', 'start', 474],
+      ['CONFIDENTIAL', 'end', 474]
+    ])
+    expect(layout.height).toBe(460 + 24)
+  })
+
+  it('grows the top margin for a tall logo', () => {
+    const logo = { src: 'data:image/png;base64,', width: 96, height: 48 }
+    const layout = layoutTitleBlock({ block: block({ logo }), legend: [], theme }, 400, 300, 40)
+    expect(layout.top).toBe(80)
+    expect(layout.items).toEqual([{ kind: 'image', x: 16, y: 16, w: 96, h: 48, src: logo.src }])
+  })
+
+  it('adds a legend row per rule below the diagram', () => {
+    const legend = [{ label: 'Late', fill: '#fee2e2' }, { label: 'Owner Ann', border: '#2563eb' }]
+    const layout = layoutTitleBlock({ block: block(), legend, theme }, 400, 300, 80)
+    expect(layout.height).toBe(460 + 2 * LEGEND_ROW + 12)
+    expect(layout.items.filter(i => i.kind === 'box')).toEqual([
+      { kind: 'box', x: 16, y: 460, w: 28, h: 16, fill: '#fee2e2', stroke: theme.edgeColor, strokeWidth: 1 },
+      { kind: 'box', x: 16, y: 460 + LEGEND_ROW, w: 28, h: 16, fill: theme.paper, stroke: '#2563eb', strokeWidth: 3 }
+    ])
+  })
+})
@@ -0,0 +1,102 @@
+// src/lib/titleBlock.ts
+// Title block of image exports and print: title, logo and marking above the diagram; version, author,
+// status date and the legend below it. Laid out once here, then drawn to SVG or canvas (see Diagram.tsx).
+import type { LegendItem } from './formatRules'
+import type { Theme } from './themes'
+
+export type Logo = {
+  /** PNG data URL */
+  src: string
+  /** drawn size in export pixels */
+  width: number
+  height: number
+}
+
+export type TitleBlock = {
+  version: string
+  author: string
+  /** yyyy-mm-dd, as the date input gives it */
+  statusDate: string
+  /** e.g. "Confidential"; shown top and bottom right */
+  marking: string
+  logo?: Logo
+}
+
+export const EMPTY_TITLE_BLOCK: TitleBlock = { version: '', author: '', statusDate: '', marking: '' }
+
+export const LOGO_HEIGHT = 48
+const LOGO_MAX_WIDTH = 180
+const PAD = 16
+const TITLE_SIZE = 20
+const DETAIL_LINE = 24
+/** also the row height of the legend on the canvas */
+export const LEGEND_ROW = 22
+const MARKING_COLOR = '#b91c1c'
+
+export type BlockItem =
+  | { kind: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; anchor: 'start' | 'middle' | 'end'; color: string }
+  | { kind: 'box'; x: number; y: number; w: number; h: number; fill: string; stroke: string; strokeWidth: number }
+  | { kind: 'image'; x: number; y: number; w: number; h: number; src: string }
+
+export type BlockLayout = {
+  /** where the diagram goes, from the top-left of the export */
+  left: number
+  top: number
+  width: number
+  height: number
+  /** text baselines (`y`) and boxes, in the same coordinates */
+  items: BlockItem[]
+}
+
+/** "Version 2 · Author: Ann · Status date: 2026-03-31" */
+export function blockDetails(block: TitleBlock): string {
+  return [
+    block.version.trim() && `Version ${block.version.trim()}`,
+    block.author.trim() && `Author: ${block.author.trim()}`,
+    block.statusDate.trim() && `Status date: ${block.statusDate.trim()}`
+  ].filter(Boolean).join(' · ')
+}
+
+export const fitLogo = (w: number, h: number): { width: number; height: number } => {
+  const k = Math.min(LOGO_HEIGHT / h, LOGO_MAX_WIDTH / w, 1)
+  return { width: Math.round(w * k), height: Math.round(h * k) }
+}
+
+/**
+ * Places the title block around a `contentWidth` × `contentHeight` diagram with `margin` on every side.
+ * The header sits in the top margin (growing it for a tall logo); details and legend are added below the bottom margin.
+ */
+export function layoutTitleBlock(
+  { title, block, legend, theme }: { title?: string; block: TitleBlock; legend: LegendItem[]; theme: Theme },
+  contentWidth: number,
+  contentHeight: number,
+  margin: number
+): BlockLayout {
+  const items: BlockItem[] = []
+  const width = contentWidth + margin * 2
+  const name = title?.trim() ?? ''
+  const marking = block.marking.trim()
+  const logo = block.logo
+
+  const header = Math.max(name || marking ? PAD * 2 + TITLE_SIZE : 0, logo ? logo.height + PAD * 2 : 0)
+  const top = Math.max(margin, header)
+  if (logo) items.push({ kind: 'image', x: PAD, y: PAD, w: logo.width, h: logo.height, src: logo.src })
+  if (name) items.push({ kind: 'text', x: width / 2, y: PAD + TITLE_SIZE, text: name, size: TITLE_SIZE, bold: true, anchor: 'middle', color: theme.titleColor })
+  if (marking) items.push({ kind: 'text', x: width - PAD, y: PAD + 14, text: marking.toUpperCase(), size: 13, bold: true, anchor: 'end', color: MARKING_COLOR })
+
+  let y = top + contentHeight + margin
+  const details = blockDetails(block)
+  if (details || marking) {
+    if (details) items.push({ kind: 'text', x: PAD, y: y + 14, text: details, size: 12, anchor: 'start', color: theme.textColor })
+    if (marking) items.push({ kind: 'text', x: width - PAD, y: y + 14, text: marking.toUpperCase(), size: 12, bold: true, anchor: 'end', color: MARKING_COLOR })
+    y += DETAIL_LINE
+  }
+  legend.forEach((item, i) => {
+    const row = y + i * LEGEND_ROW
+    items.push({ kind: 'box', x: PAD, y: row, w: 28, h: 16, fill: item.fill ?? theme.paper, stroke: item.border ?? theme.edgeColor, strokeWidth: item.border ? 3 : 1 })
+    items.push({ kind: 'text', x: PAD + 38, y: row + 13, text: item.label, size: 13, anchor: 'start', color: theme.titleColor })
+  })
+  if (legend.length) y += legend.length * LEGEND_ROW + 12
+
+  return { left: margin, top, width, height: y, items }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_NUMBERING } from './numbering'
+import { validateOutline } from './validateOutline'
+
+const codes = (text: string, start = 1) =>
+  validateOutline(text, { ...DEFAULT_NUMBERING, start }).map(d => [d.line, d.code])
+
+describe('validateOutline: WBS tables', () => {
+  it('accepts a clean table', () => {
+    expect(codes('1\tProject\n1.1\tDesign\n1.2\tBuild\n1.2.1\tCode')).toEqual([])
+  })
+
+  it('finds duplicates, orphans and blank names', () => {
+    expect(codes('1\tProject\n1.1\tDesign\n1.1\tAgain\n1.3.1\tLost\n1.2\t{owner: Ann}\n1.4')).toEqual([
+      [3, 'duplicate-code'], [4, 'orphan-code'], [5, 'blank-label'], [6, 'blank-label']
+    ])
+  })
+
+  it('reports gaps against the scheme start', () => {
+    expect(codes('1\tProject\n1.1\tDesign\n1.3\tBuild')).toEqual([[3, 'numbering-gap']])
+    expect(codes('0\tProject\n0.0\tDesign\n0.1\tBuild', 0)).toEqual([])
+    expect(codes('0\tProject\n0.0\tDesign\n0.1\tBuild')).toEqual([[1, 'numbering-gap'], [2, 'numbering-gap']])
+    expect(codes('1\tProject\n1.1\tDesign', 0)).toEqual([[1, 'numbering-gap'], [2, 'numbering-gap']])
+  })
+})
+
+describe('validateOutline: indented outlines', () => {
+  it('accepts a clean outline', () => {
+    expect(codes('Project\n  Design\n  Build\n    Code')).toEqual([])
+  })
+
+  it('finds odd widths, jumps, misalignment and mixed indentation', () => {
+    expect(codes('Project\n  Design\n      Deep\n   Odd\n\tTabbed')).toEqual([
+      [3, 'indent-jump'], [4, 'indent-width'], [4, 'indent-misaligned'], [5, 'mixed-indent']
+    ])
+  })
+
+  it('flags task data without a name', () => {
+    expect(codes('Project\n  {owner: Ann}')).toEqual([[2, 'blank-label']])
+  })
+})
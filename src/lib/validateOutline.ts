@@ -0,0 +1,152 @@
+// src/lib/validateOutline.ts
+import { DEFAULT_NUMBERING, type NumberingScheme } from './numbering'
+import { countIndent, detectOutlineStyle, looksLikeWbsLine } from './parseOutline'
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+export type DiagnosticCode =
+  | 'duplicate-code'
+  | 'numbering-gap'
+  | 'orphan-code'
+  | 'not-a-row'
+  | 'indent-width'
+  | 'indent-jump'
+  | 'indent-misaligned'
+  | 'mixed-indent'
+  | 'blank-label'
+
+/** One finding, anchored to a 1-based line of the outline text */
+export type Diagnostic = {
+  line: number
+  severity: DiagnosticSeverity
+  code: DiagnosticCode
+  message: string
+}
+
+const CODE_ONLY = /^\s*\d+(?:\.\d+)*\.?\s*$/
+const ATTRS_ONLY = /^\{.*\}$/
+
+/* ============================================================
+   WBS TABLE ("1.2.3<TAB>Task name")
+   ============================================================ */
+
+/** `start` is the first number of every level under the active numbering scheme (0 or 1) */
+function validateWbs(lines: string[], start: number): Diagnostic[] {
+  const out: Diagnostic[] = []
+  const firstLine = new Map<string, number>()
+  const rows: Array<{ line: number; code: string; segs: number[] }> = []
+
+  lines.forEach((raw, i) => {
+    const line = i + 1
+    if (!raw.trim()) return
+    if (CODE_ONLY.test(raw)) {
+      out.push({ line, severity: 'error', code: 'blank-label', message: `WBS ${raw.trim()} has no task name` })
+      return
+    }
+    const row = looksLikeWbsLine(raw)
+    if (!row) {
+      out.push({ line, severity: 'warning', code: 'not-a-row', message: 'Not a "code<TAB>name" row; this line is ignored' })
+      return
+    }
+    if (ATTRS_ONLY.test(row.name)) {
+      out.push({ line, severity: 'error', code: 'blank-label', message: `WBS ${row.code} has no task name` })
+    }
+    const dup = firstLine.get(row.code)
+    if (dup !== undefined) {
+      out.push({ line, severity: 'error', code: 'duplicate-code', message: `Duplicate code ${row.code} (first used on line ${dup}); the later row wins` })
+      return
+    }
+    firstLine.set(row.code, line)
+    rows.push({ line, code: row.code, segs: row.code.split('.').map(Number) })
+  })
+  if (!rows.length) return out
+
+  // orphans: a parent code that is not in the file (top level excluded)
+  const minDepth = Math.min(...rows.map(r => r.segs.length))
+  for (const r of rows) {
+    if (r.segs.length <= minDepth) continue
+    const parent = r.code.split('.').slice(0, -1).join('.')
+    if (!firstLine.has(parent)) {
+      out.push({ line: r.line, severity: 'warning', code: 'orphan-code', message: `Parent ${parent} of ${r.code} is missing; it is attached to the top node` })
+    }
+  }
+
+  // gaps: siblings should count up by one from the scheme's start
+  const siblings = new Map<string, typeof rows>()
+  for (const r of rows) {
+    const key = r.segs.slice(0, -1).join('.')
+    siblings.set(key, [...(siblings.get(key) ?? []), r])
+  }
+  for (const group of siblings.values()) {
+    const sorted = [...group].sort((a, b) => a.segs[a.segs.length - 1] - b.segs[b.segs.length - 1])
+    const base = sorted[0].segs[sorted[0].segs.length - 1]
+    if (base !== start) {
+      out.push({ line: sorted[0].line, severity: 'warning', code: 'numbering-gap', message: `Numbering of ${sorted[0].code} starts at ${base}, not ${start}` })
+    }
+    for (let i = 1; i < sorted.length; i++) {
+      const prev = sorted[i - 1].segs[sorted[i - 1].segs.length - 1], cur = sorted[i].segs[sorted[i].segs.length - 1]
+      if (cur - prev > 1) {
+        const missing = cur - prev === 2 ? `${prev + 1}` : `${prev + 1}–${cur - 1}`
+        out.push({ line: sorted[i].line, severity: 'warning', code: 'numbering-gap', message: `Gap before ${sorted[i].code}: number ${missing} is missing at this level` })
+      }
+    }
+  }
+  return out
+}
+
+/* ============================================================
+   INDENTED OUTLINE
+   ============================================================ */
+
+function validateIndent(lines: string[], unit: string): Diagnostic[] {
+  const out: Diagnostic[] = []
+  const width = unit === '\t' ? 2 : unit.length // countIndent treats a tab as 2 spaces
+  let indentChar: ' ' | '\t' | null = null
+  const open: number[] = [] // indents of the currently open ancestors
+
+  lines.forEach((raw, i) => {
+    const line = i + 1
+    if (!raw.trim()) return
+    const lead = raw.match(/^[ \t]*/)![0]
+    const indent = countIndent(raw)
+
+    if (lead.includes(' ') && lead.includes('\t')) {
+      out.push({ line, severity: 'warning', code: 'mixed-indent', message: 'Indentation mixes tabs and spaces (a tab counts as 2 spaces)' })
+    } else if (lead) {
+      const ch = lead[0] as ' ' | '\t'
+      if (!indentChar) indentChar = ch
+      else if (ch !== indentChar) {
+        out.push({ line, severity: 'warning', code: 'mixed-indent', message: `Indented with ${ch === '\t' ? 'tabs' : 'spaces'} while earlier lines use ${indentChar === '\t' ? 'tabs' : 'spaces'}` })
+      }
+    }
+
+    if (ATTRS_ONLY.test(raw.trim())) {
+      out.push({ line, severity: 'error', code: 'blank-label', message: 'Line has task data but no task name' })
+    }
+
+    if (indent % width !== 0) {
+      out.push({ line, severity: 'warning', code: 'indent-width', message: `Indent of ${indent} is not a multiple of ${width}` })
+    }
+
+    while (open.length && indent <= open[open.length - 1]) {
+      const popped = open.pop()!
+      if (indent > (open[open.length - 1] ?? -1) && indent < popped) {
+        out.push({ line, severity: 'warning', code: 'indent-misaligned', message: 'Indent does not line up with any parent line; nested under the closest one' })
+      }
+    }
+    const jump = open.length ? Math.round((indent - open[open.length - 1]) / width) : 0
+    if (jump > 1) {
+      out.push({ line, severity: 'info', code: 'indent-jump', message: `Indented ${jump} levels deeper than the line above; treated as one level` })
+    }
+    open.push(indent)
+  })
+  return out
+}
+
+/** Structured findings for the editor pane; parseOutline itself stays lenient */
+export function validateOutline(text: string, scheme: NumberingScheme = DEFAULT_NUMBERING): Diagnostic[] {
+  const lines = text.split(/\r?\n/)
+  const style = detectOutlineStyle(text)
+  const out = style.format === 'wbs' ? validateWbs(lines, scheme.start) : validateIndent(lines, style.indent)
+  return out.sort((a, b) => a.line - b.line)
+}
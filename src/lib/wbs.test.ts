@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_NUMBERING } from './numbering'
+import { parseOutline, ROOT_ID, type WbsNode } from './parseOutline'
+import { deleteNode, indentNode, insertChild, insertSibling, moveNode, outdentNode, reconcileIds, subsetTree, subtreeOf, toOutline } from './wbs'
+
+/** label → id for every node */
+const idsByLabel = (root: WbsNode) => {
+  const ids = new Map<string, string>()
+  const walk = (n: WbsNode) => { ids.set(n.label, n.id); n.children.forEach(walk) }
+  walk(root)
+  return ids
+}
+
+/** label → code for every node that has one */
+const codesByLabel = (root: WbsNode) => {
+  const codes: Record<string, string | undefined> = {}
+  const walk = (n: WbsNode) => { if (n.code) codes[n.label] = n.code; n.children.forEach(walk) }
+  walk(root)
+  return codes
+}
+
+const edit = (before: string, after: string) => {
+  const prev = parseOutline(before)
+  return { prev: idsByLabel(prev), next: idsByLabel(reconcileIds(prev, parseOutline(after))) }
+}
+
+describe('parseOutline ids', () => {
+  it('derives the same ids from the same text', () => {
+    const text = 'Project\n  Design\n  Build\n    Code'
+    expect(idsByLabel(parseOutline(text))).toEqual(idsByLabel(parseOutline(text)))
+  })
+
+  it('gives duplicate sibling labels distinct ids', () => {
+    const root = parseOutline('Project\n  Test\n  Test')
+    expect(root.children[0].id).not.toBe(root.children[1].id)
+  })
+})
+
+describe('reconcileIds', () => {
+  const base = 'Project\n  Design\n  Build\n    Code\n  Test'
+
+  it('keeps every id when a line is inserted', () => {
+    const { prev, next } = edit(base, 'Project\n  Plan\n  Design\n  Build\n    Code\n  Test')
+    for (const label of ['Project', 'Design', 'Build', 'Code', 'Test']) expect(next.get(label)).toBe(prev.get(label))
+    expect([...prev.values()]).not.toContain(next.get('Plan'))
+  })
+
+  it('keeps the other ids when a line is deleted', () => {
+    const { prev, next } = edit(base, 'Project\n  Build\n    Code\n  Test')
+    for (const label of ['Project', 'Build', 'Code', 'Test']) expect(next.get(label)).toBe(prev.get(label))
+  })
+
+  it('keeps the id of a renamed line', () => {
+    const { prev, next } = edit(base, 'Project\n  Design\n  Construct\n    Code\n  Test')
+    expect(next.get('Construct')).toBe(prev.get('Build'))
+    expect(next.get('Code')).toBe(prev.get('Code'))
+  })
+
+  it('follows a line moved under another parent', () => {
+    const { prev, next } = edit(base, 'Project\n  Design\n    Code\n  Build\n  Test')
+    expect(next.get('Code')).toBe(prev.get('Code'))
+  })
+
+  it('matches thousands of siblings without a full table', () => {
+    const labels = Array.from({ length: 3000 }, (_, i) => `Task ${i}`)
+    const before = ['Program', ...labels.map(l => `  ${l}`)].join('\n')
+    const shuffled = [...labels.slice(0, 1000), ...labels.slice(2000), ...labels.slice(1000, 2000), 'Task new']
+    const after = ['Program', ...shuffled.map(l => `  ${l}`)].join('\n')
+    const { prev, next } = edit(before, after)
+    for (const label of labels) expect(next.get(label)).toBe(prev.get(label))
+    expect(new Set(next.values()).size).toBe(next.size)
+  })
+})
+
+describe('structural edits', () => {
+  const indented = parseOutline('Project\n  Design\n  Build\n    Code\n  Test')
+  const idOf = (root: WbsNode, label: string) => idsByLabel(root).get(label)!
+
+  it('inserts a child and a sibling', () => {
+    const child = insertChild(indented, idOf(indented, 'Build'), 'Review')!
+    expect(toOutline(child.root)).toBe('Project\n  Design\n  Build\n    Code\n    Review\n  Test')
+    const sibling = insertSibling(indented, idOf(indented, 'Design'), 'Plan')!
+    expect(toOutline(sibling.root)).toBe('Project\n  Design\n  Plan\n  Build\n    Code\n  Test')
+    expect(idsByLabel(sibling.root).get('Plan')).toBe(sibling.id)
+  })
+
+  it('indents, outdents and moves without touching the input', () => {
+    const before = toOutline(indented)
+    expect(toOutline(indentNode(indented, idOf(indented, 'Build'))!.root)).toBe('Project\n  Design\n    Build\n      Code\n  Test')
+    expect(toOutline(outdentNode(indented, idOf(indented, 'Code'))!.root)).toBe('Project\n  Design\n  Build\n  Code\n  Test')
+    expect(toOutline(moveNode(indented, idOf(indented, 'Test'), idOf(indented, 'Design'))!.root)).toBe('Project\n  Design\n    Test\n  Build\n    Code')
+    expect(toOutline(indented)).toBe(before)
+  })
+
+  it('refuses impossible edits', () => {
+    expect(indentNode(indented, idOf(indented, 'Design'))).toBeNull()
+    expect(moveNode(indented, idOf(indented, 'Build'), idOf(indented, 'Code'))).toBeNull()
+    expect(deleteNode(indented, idOf(indented, 'Project'))).toBeNull()
+  })
+
+  it('gives an indented outline no codes', () => {
+    expect(codesByLabel(insertChild(indented, idOf(indented, 'Build'), 'Review')!.root)).toEqual({})
+  })
+
+  describe('in a coded outline', () => {
+    const coded = parseOutline('1\tProject\n1.1\tDesign\n1.2\tBuild\n1.2.1\tCode\n1.2.2\tReview\n1.3\tTest\n1.3.1\tUnit')
+
+    it('keeps the codes of nodes whose position did not change', () => {
+      const { root } = insertChild(coded, '1.1', 'Sketch')!
+      expect(codesByLabel(root)).toEqual({ Project: '1', Design: '1.1', Sketch: '1.1.1', Build: '1.2', Code: '1.2.1', Review: '1.2.2', Test: '1.3', Unit: '1.3.1' })
+    })
+
+    it('renumbers the siblings after an insert, subtrees included', () => {
+      const { root } = insertSibling(coded, '1.1', 'Plan')!
+      expect(codesByLabel(root)).toMatchObject({ Design: '1.1', Plan: '1.2', Build: '1.3', Code: '1.3.1', Test: '1.4', Unit: '1.4.1' })
+    })
+
+    it('moves a subtree under its new parent code', () => {
+      const { root } = moveNode(coded, '1.2', '1.3')!
+      expect(codesByLabel(root)).toMatchObject({ Design: '1.1', Test: '1.2', Unit: '1.2.1', Build: '1.2.2', Code: '1.2.2.1', Review: '1.2.2.2' })
+      expect(toOutline(root, { format: 'wbs', indent: '  ' }).split('\n')[0]).toBe('1\tProject')
+    })
+
+    it('closes the gap a deleted node leaves', () => {
+      const { root } = deleteNode(coded, '1.2.1')!
+      expect(codesByLabel(root)).toMatchObject({ Build: '1.2', Review: '1.2.1', Test: '1.3' })
+    })
+
+    it('numbers from the scheme start', () => {
+      const { root } = insertChild(coded, '1.1', 'Sketch', { ...DEFAULT_NUMBERING, start: 0 })!
+      expect(codesByLabel(root).Sketch).toBe('1.1.0')
+    })
+  })
+})
+
+describe('export scopes', () => {
+  const root = parseOutline('Project\n  Design\n    Spec {owner: Ann}\n  Build\n    Code\n      Unit\n  Test')
+  const ids = idsByLabel(root)
+  /** label@level for every node, depth first */
+  const levels = (n: WbsNode): string[] => [`${n.label}@${n.level}`, ...n.children.flatMap(levels)]
+  const keep = (...labels: string[]) => new Set(labels.map(l => ids.get(l)!))
+
+  it('cuts out a branch re-levelled from the top, keeping ids and attributes', () => {
+    const build = subtreeOf(root, ids.get('Build')!)!
+    expect(levels(build)).toEqual(['Build@1', 'Code@2', 'Unit@3'])
+    expect(build.id).toBe(ids.get('Build'))
+    expect(subtreeOf(root, ids.get('Spec')!)!.attrs?.owner).toBe('Ann')
+  })
+
+  it('returns null for an id that is not in the tree', () => {
+    expect(subtreeOf(root, 'nope')).toBeNull()
+  })
+
+  it('hangs kept nodes under their nearest kept ancestor when levels are skipped', () => {
+    const cut = subsetTree(root, keep('Project', 'Spec', 'Build', 'Unit'))
+    expect(levels(cut)).toEqual(['Project@1', 'Spec@2', 'Build@2', 'Unit@3'])
+  })
+
+  it('wraps several kept top-level nodes in a synthetic root', () => {
+    const cut = subsetTree(root, keep('Design', 'Code', 'Unit'))
+    expect(cut.id).toBe(ROOT_ID)
+    expect(levels(cut)).toEqual(['Project@0', 'Design@1', 'Code@1', 'Unit@2'])
+    expect(toOutline(cut)).toBe('Design\nCode\n  Unit')
+  })
+})
@@ -1,27 +1,28 @@
-import type { WbsNode } from './parseOutline'
+import { formatAttributeSuffix } from './attributes'
+import { DEFAULT_NUMBERING, type NumberingScheme } from './numbering'
+import { ROOT_ID, type OutlineStyle, type WbsNode } from './parseOutline'
 
-/** Convert a WBS tree back to a 2-space indented outline */
-export function toOutline(root: WbsNode): string {
+/**
+ * Convert a WBS tree back to outline text. Indented outlines use `style.indent`
+ * per level; WBS-table style writes "code<TAB>name", keeping parsed codes and
+ * numbering nodes without one under their parent. Attributes are written back as
+ * a trailing "{…}" block. The synthetic root is omitted.
+ */
+export function toOutline(root: WbsNode, style: OutlineStyle = { format: 'indent', indent: '  ' }): string {
   const lines: string[] = []
-  const visit = (n: WbsNode) => {
-    for (const c of n.children || []) {
-      const indent = '  '.repeat(Math.max(0, c.level - 1))
-      lines.push(`${indent}${c.label}`)
-      visit(c)
-    }
+  const visit = (n: WbsNode, depth: number, code: string) => {
+    const text = `${n.label}${formatAttributeSuffix(n.attrs)}`
+    if (style.format === 'wbs') lines.push(`${code}\t${text}`)
+    else lines.push(`${style.indent.repeat(depth)}${text}`)
+    n.children.forEach((c, i) => visit(c, depth + 1, c.code ?? `${code}.${i + 1}`))
   }
-  visit(root)
+  topLevel(root).forEach((n, i) => visit(n, 0, n.code ?? String(i + 1)))
   return lines.join('\n')
 }
 
 /** Deep clone + rename a node by id (path-like id) */
 export function renameNode(root: WbsNode, id: string, newLabel: string): WbsNode {
-  const clone = (n: WbsNode): WbsNode => ({
-    id: n.id,
-    label: n.label,
-    level: n.level,
-    children: n.children?.map(clone) ?? []
-  })
+  const clone = (n: WbsNode): WbsNode => ({ ...n, children: n.children?.map(clone) ?? [] })
   const copy = clone(root)
   const map = new Map<string, WbsNode>()
   const index = (n: WbsNode) => { map.set(n.id, n); n.children.forEach(index) }
@@ -31,6 +32,273 @@ export function renameNode(root: WbsNode, id: string, newLabel: string): WbsNode
   return copy
 }
 
+/** Top-level nodes of a tree; the synthetic "Project" root is transparent */
+const topLevel = (root: WbsNode): WbsNode[] => (root.id === ROOT_ID ? root.children : [root])
+
+/* ============================================================
+   STRUCTURAL EDITS (immutable; each returns a new tree)
+   ============================================================ */
+
+/** Result of a structural edit: the new tree and the node to focus afterwards */
+export type TreeEdit = { root: WbsNode; id: string }
+
+/**
+ * Codes follow a node whose position changed: the children of `parent` are
+ * numbered by position (dotted decimals from `start`, the only codes the table
+ * parser reads), and a child whose code changes takes its subtree along, each
+ * descendant keeping its own trailing segments under the new prefix.
+ */
+function renumberChildren(parent: WbsNode, start: number) {
+  const recode = (n: WbsNode, code: string) => {
+    const old = n.code
+    n.code = code
+    n.children.forEach((c, i) => recode(c, old && c.code?.startsWith(`${old}.`) ? code + c.code.slice(old.length) : `${code}.${start + i}`))
+  }
+  parent.children.forEach((c, i) => {
+    const code = parent.code ? `${parent.code}.${start + i}` : String(start + i)
+    if (c.code !== code) recode(c, code)
+  })
+}
+
+/**
+ * Clone the tree under a synthetic wrapper so top-level nodes have a parent too.
+ * `finish` re-levels, renumbers the parents whose children changed when the
+ * outline carries codes (all other codes are kept), and unwraps again when a
+ * single top-level node remains.
+ */
+function editable(root: WbsNode, scheme: NumberingScheme) {
+  const base = topLevel(root)[0]?.level ?? 1
+  const clone = (n: WbsNode): WbsNode => ({ ...n, children: n.children.map(clone) })
+  const wrapper: WbsNode = { id: ROOT_ID, label: 'Project', level: base - 1, children: topLevel(root).map(clone) }
+  const parents = new Map<string, WbsNode>()
+  const nodes = new Map<string, WbsNode>()
+  const index = (n: WbsNode) => { nodes.set(n.id, n); n.children.forEach(c => { parents.set(c.id, n); index(c) }) }
+  index(wrapper)
+  const coded = [...nodes.values()].some(n => n.code)
+  const finish = (id: string, touched: WbsNode[]): TreeEdit => {
+    const relevel = (n: WbsNode, lvl: number) => { n.level = lvl; n.children.forEach(c => relevel(c, lvl + 1)) }
+    relevel(wrapper, base - 1)
+    // shallow parents first, so deeper ones are numbered under their final prefix
+    if (coded) [...touched].sort((a, b) => a.level - b.level).forEach(p => renumberChildren(p, scheme.start))
+    return { root: wrapper.children.length === 1 ? wrapper.children[0] : wrapper, id }
+  }
+  const freshId = () => { let k = 1; while (nodes.has(`n_new${k}`)) k++; return `n_new${k}` }
+  return { wrapper, nodes, parents, finish, freshId }
+}
+
+export function insertChild(root: WbsNode, parentId: string, label = 'New task', scheme = DEFAULT_NUMBERING): TreeEdit | null {
+  const t = editable(root, scheme)
+  const parent = t.nodes.get(parentId); if (!parent) return null
+  const node: WbsNode = { id: t.freshId(), label, level: parent.level + 1, children: [] }
+  parent.children.push(node)
+  return t.finish(node.id, [parent])
+}
+
+/** Insert right after `id`; a sibling of the single top node becomes a second top-level node */
+export function insertSibling(root: WbsNode, id: string, label = 'New task', scheme = DEFAULT_NUMBERING): TreeEdit | null {
+  const t = editable(root, scheme)
+  const parent = t.parents.get(id); if (!parent) return null
+  const node: WbsNode = { id: t.freshId(), label, level: parent.level + 1, children: [] }
+  parent.children.splice(parent.children.findIndex(c => c.id === id) + 1, 0, node)
+  return t.finish(node.id, [parent])
+}
+
+/** Remove a node and its subtree; the last remaining top-level node cannot be deleted */
+export function deleteNode(root: WbsNode, id: string, scheme = DEFAULT_NUMBERING): TreeEdit | null {
+  const t = editable(root, scheme)
+  const parent = t.parents.get(id); if (!parent) return null
+  if (parent === t.wrapper && parent.children.length === 1) return null
+  const i = parent.children.findIndex(c => c.id === id)
+  parent.children.splice(i, 1)
+  const focus = parent.children[Math.max(0, i - 1)] ?? parent
+  return t.finish(focus.id, [parent])
+}
+
+/** Demote: become the last child of the previous sibling */
+export function indentNode(root: WbsNode, id: string, scheme = DEFAULT_NUMBERING): TreeEdit | null {
+  const t = editable(root, scheme)
+  const parent = t.parents.get(id); if (!parent) return null
+  const i = parent.children.findIndex(c => c.id === id)
+  if (i < 1) return null
+  const [node] = parent.children.splice(i, 1)
+  parent.children[i - 1].children.push(node)
+  return t.finish(id, [parent, parent.children[i - 1]])
+}
+
+/** Promote: become the next sibling of the current parent */
+export function outdentNode(root: WbsNode, id: string, scheme = DEFAULT_NUMBERING): TreeEdit | null {
+  const t = editable(root, scheme)
+  const parent = t.parents.get(id); if (!parent || parent === t.wrapper) return null
+  const grand = t.parents.get(parent.id)!
+  parent.children.splice(parent.children.findIndex(c => c.id === id), 1)
+  const node = t.nodes.get(id)!
+  grand.children.splice(grand.children.findIndex(c => c.id === parent.id) + 1, 0, node)
+  return t.finish(id, [grand, parent])
+}
+
+/** Reparent `id` under `parentId` (appended, or at `index`); refuses to move a node into its own subtree */
+export function moveNode(root: WbsNode, id: string, parentId: string, index?: number, scheme = DEFAULT_NUMBERING): TreeEdit | null {
+  const t = editable(root, scheme)
+  const parent = t.parents.get(id), target = t.nodes.get(parentId)
+  if (!parent || !target || id === parentId) return null
+  if (parent === target && index === undefined) return null
+  for (let p: WbsNode | undefined = target; p; p = t.parents.get(p.id)) if (p.id === id) return null
+  if (parent === t.wrapper && parent.children.length === 1) return null
+  parent.children.splice(parent.children.findIndex(c => c.id === id), 1)
+  const node = t.nodes.get(id)!
+  target.children.splice(index ?? target.children.length, 0, node)
+  return t.finish(id, [parent, target])
+}
+
+/* ============================================================
+   ID RECONCILIATION (keep ids stable across re-parses)
+   ============================================================ */
+
+/** Above this many table cells the middle of a sibling list is matched on unique labels only */
+const LCS_CELLS = 250_000
+
+/** Full LCS table over a[a0..a1) × b[b0..b1) → matched index pairs (ascending) */
+function lcsTable(a: string[], b: string[], a0: number, a1: number, b0: number, b1: number): Array<[number, number]> {
+  const n = a1 - a0, m = b1 - b0
+  const dp: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      dp[i][j] = a[a0 + i] === b[b0 + j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1])
+    }
+  }
+  const pairs: Array<[number, number]> = []
+  let i = 0, j = 0
+  while (i < n && j < m) {
+    if (a[a0 + i] === b[b0 + j]) { pairs.push([a0 + i, b0 + j]); i++; j++ }
+    else if (dp[i + 1][j] >= dp[i][j + 1]) i++
+    else j++
+  }
+  return pairs
+}
+
+/**
+ * Labels that occur once on each side, paired through a map, then the longest
+ * run of them that keeps its order (patience sorting), so O(n log n).
+ */
+function uniquePairs(a: string[], b: string[], a0: number, a1: number, b0: number, b1: number): Array<[number, number]> {
+  const count = (xs: string[], from: number, to: number) => {
+    const seen = new Map<string, number>()
+    for (let i = from; i < to; i++) seen.set(xs[i], seen.has(xs[i]) ? -1 : i)
+    return seen
+  }
+  const inA = count(a, a0, a1), inB = count(b, b0, b1)
+  const candidates: Array<[number, number]> = []
+  for (const [label, i] of inA) {
+    const j = inB.get(label)
+    if (i >= 0 && j !== undefined && j >= 0) candidates.push([i, j])
+  }
+  candidates.sort((x, y) => x[0] - y[0])
+  // tails[k]: index in candidates of the smallest b-index ending an increasing run of length k + 1
+  const tails: number[] = [], back = new Array<number>(candidates.length)
+  candidates.forEach(([, j], c) => {
+    let lo = 0, hi = tails.length
+    while (lo < hi) { const mid = (lo + hi) >> 1; if (candidates[tails[mid]][1] < j) lo = mid + 1; else hi = mid }
+    back[c] = lo > 0 ? tails[lo - 1] : -1
+    tails[lo] = c
+  })
+  const pairs: Array<[number, number]> = []
+  for (let c = tails.length ? tails[tails.length - 1] : -1; c >= 0; c = back[c]) pairs.push(candidates[c])
+  return pairs.reverse()
+}
+
+/**
+ * Longest common subsequence of two label lists → matched index pairs (ascending).
+ * The common head and tail are matched directly; only the changed middle needs a
+ * table, and a long one (thousands of siblings) falls back to `uniquePairs`.
+ */
+function lcsPairs(a: string[], b: string[]): Array<[number, number]> {
+  let head = 0
+  while (head < a.length && head < b.length && a[head] === b[head]) head++
+  let endA = a.length, endB = b.length
+  while (endA > head && endB > head && a[endA - 1] === b[endB - 1]) { endA--; endB-- }
+
+  const pairs: Array<[number, number]> = []
+  for (let i = 0; i < head; i++) pairs.push([i, i])
+  if (endA > head && endB > head) {
+    const middle = (endA - head) * (endB - head) <= LCS_CELLS ? lcsTable : uniquePairs
+    pairs.push(...middle(a, b, head, endA, head, endB))
+  }
+  for (let i = endA, j = endB; i < a.length; i++, j++) pairs.push([i, j])
+  return pairs
+}
+
+/**
+ * Carry ids over from the previous tree so anything keyed by id (positions,
+ * widths, collapse state) survives an edit of the outline text.
+ *
+ * Siblings are matched parent by parent: equal labels first (in order), then the
+ * unmatched lines between two matched neighbours pair up positionally, which
+ * covers renames. Leftovers whose label is unique on both sides are matched
+ * across parents, which covers indent/outdent. Unmatched nodes keep the id the
+ * parser derived for them. `next` is updated in place and returned.
+ */
+export function reconcileIds(prev: WbsNode | null | undefined, next: WbsNode): WbsNode {
+  if (!prev) return next
+  const matched = new Map<WbsNode, WbsNode>() // next node -> prev node
+  const usedPrev = new Set<WbsNode>()
+
+  const matchLists = (olds: WbsNode[], news: WbsNode[]) => {
+    const pairs: Array<[WbsNode, WbsNode]> = []
+    const anchors = lcsPairs(olds.map(n => n.label), news.map(n => n.label))
+    let oi = 0, ni = 0
+    for (const [ao, an] of [...anchors, [olds.length, news.length] as [number, number]]) {
+      // positional pairing inside the gap before this anchor
+      const gap = Math.min(ao - oi, an - ni)
+      for (let k = 0; k < gap; k++) pairs.push([olds[oi + k], news[ni + k]])
+      if (ao < olds.length) pairs.push([olds[ao], news[an]])
+      oi = ao + 1; ni = an + 1
+    }
+    for (const [o, n] of pairs) {
+      if (usedPrev.has(o) || matched.has(n)) continue
+      matched.set(n, o); usedPrev.add(o)
+      matchLists(o.children, n.children)
+    }
+  }
+  if (prev.id === ROOT_ID && next.id === ROOT_ID) matched.set(next, prev)
+  matchLists(topLevel(prev), topLevel(next))
+
+  // moved nodes: unique labels among the leftovers on both sides
+  const collect = (root: WbsNode, keep: (n: WbsNode) => boolean) => {
+    const byLabel = new Map<string, WbsNode[]>()
+    const walk = (n: WbsNode) => {
+      if (n.id !== ROOT_ID && keep(n)) byLabel.set(n.label, [...(byLabel.get(n.label) ?? []), n])
+      n.children.forEach(walk)
+    }
+    walk(root)
+    return byLabel
+  }
+  const leftPrev = collect(prev, n => !usedPrev.has(n))
+  const leftNext = collect(next, n => !matched.has(n))
+  for (const [label, news] of leftNext) {
+    const olds = leftPrev.get(label)
+    if (news.length !== 1 || olds?.length !== 1) continue
+    if (matched.has(news[0]) || usedPrev.has(olds[0])) continue
+    matched.set(news[0], olds[0]); usedPrev.add(olds[0])
+    matchLists(olds[0].children, news[0].children)
+  }
+
+  // assign ids; fresh ids that clash with a carried-over one get a suffix
+  const taken = new Set<string>()
+  for (const o of matched.values()) taken.add(o.id)
+  const assign = (n: WbsNode) => {
+    const o = matched.get(n)
+    if (o) n.id = o.id
+    else {
+      let id = n.id
+      for (let k = 2; taken.has(id); k++) id = `${n.id}_${k}`
+      n.id = id; taken.add(id)
+    }
+    n.children.forEach(assign)
+  }
+  assign(next)
+  return next
+}
+
 /**
  * If the first non-empty line is intended to be the single top node,
  * ensure every other line is at least one level deeper.
@@ -57,3 +325,30 @@ export function makeFirstLineRoot(text: string): string {
   }
   return out.join('\n')
 }
+
+/* ============================================================
+   EXPORT SCOPES (cut-down copies; ids and attributes are kept)
+   ============================================================ */
+
+/**
+ * The tree without the nodes missing from `keep`. A dropped node's kept
+ * descendants move up to its nearest kept ancestor; several kept top-level
+ * nodes end up under a synthetic "Project" root.
+ */
+export function subsetTree(root: WbsNode, keep: ReadonlySet<string>): WbsNode {
+  const base = topLevel(root)[0]?.level ?? 1
+  const cut = (n: WbsNode, lvl: number): WbsNode[] => keep.has(n.id)
+    ? [{ ...n, level: lvl, children: n.children.flatMap(c => cut(c, lvl + 1)) }]
+    : n.children.flatMap(c => cut(c, lvl))
+  const tops = topLevel(root).flatMap(n => cut(n, base))
+  return tops.length === 1 ? tops[0] : { id: ROOT_ID, label: root.label || 'Project', level: base - 1, children: tops }
+}
+
+/** The subtree under `id` as a tree of its own, re-levelled from the top; null when `id` isn't in the tree */
+export function subtreeOf(root: WbsNode, id: string): WbsNode | null {
+  const find = (n: WbsNode): WbsNode | null => (n.id === id ? n : n.children.reduce<WbsNode | null>((hit, c) => hit ?? find(c), null))
+  const node = find(root)
+  if (!node) return null
+  const relevel = (n: WbsNode, lvl: number): WbsNode => ({ ...n, level: lvl, children: n.children.map(c => relevel(c, lvl + 1)) })
+  return relevel(node, topLevel(root)[0]?.level ?? 1)
+}
@@ -1,10 +1,16 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { HashRouter, Route, Routes } from 'react-router-dom'
 import './index.css'
-import App from './App.tsx'
+import { DocumentRoute, OpenLastDocument } from './App.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <HashRouter>
+      <Routes>
+        <Route path="/doc/:docId" element={<DocumentRoute />} />
+        <Route path="*" element={<OpenLastDocument />} />
+      </Routes>
+    </HashRouter>
   </StrictMode>,
 )
@@ -1,4 +0,0 @@
-declare module 'cytoscape-dagre' {
-  const plugin: any;
-  export default plugin;
-}
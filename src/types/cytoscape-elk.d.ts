@@ -1,4 +0,0 @@
-declare module 'cytoscape-elk' {
-  const plugin: any;
-  export default plugin;
-}
@@ -0,0 +1,18 @@
+declare module 'dagre' {
+  // Minimal typing – the graph calls used by lib/layoutEngine.ts
+  type Label = Record<string, unknown>
+  class Graph {
+    constructor(options?: { directed?: boolean; multigraph?: boolean; compound?: boolean })
+    setGraph(label: Label): this
+    setDefaultEdgeLabel(fn: () => Label): this
+    setNode(id: string, label: { width: number; height: number }): this
+    setEdge(source: string, target: string, label?: Label, name?: string): this
+    node(id: string): { x: number; y: number; width: number; height: number }
+    nodes(): string[]
+  }
+  const dagre: {
+    graphlib: { Graph: typeof Graph }
+    layout(graph: Graph): void
+  }
+  export default dagre
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -5,4 +6,8 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   base: '/wbs-app/',
   plugins: [react()],
+  test: {
+    // svg2pdf.js names its UMD build as the CommonJS entry of an ES module package, which Node cannot load
+    server: { deps: { inline: ['svg2pdf.js'] } }
+  }
 })